@@ -1,238 +1,1731 @@
 import type {
     AuthContext,
+    CsrfOptions,
+    PrincipalPredicate,
+    ImpersonateOptions,
+    ReauthenticateOptions,
     RequireAuthOptions,
+    RequirePermissionsOptions,
+    RequirePrincipalOptions,
+    RequireRecentAuthOptions,
+    RevokeAllOptions,
+    RotateOptions,
+    RotateResult,
     SessionKitOptions,
+    SessionState,
     SignInOptions,
     SignInResult,
     SignOutOptions,
+    UpgradeOptions,
 } from "./types";
 import type { HttpContext, HttpMiddleware } from "./http/HttpContext";
+import type { OwnedSession, SessionStore, StoredSession } from "./store/SessionStore";
+import type { RememberedSession } from "./store/RememberMeStore";
+import {
+    BearerTransport,
+    CombinedTransport,
+    CookieTransport,
+    type SessionTransport,
+} from "./transport/SessionTransport";
 import { NoopLockProvider } from "./session/LockProvider";
-import { SessionKitError, toSessionKitError } from "./errors";
+import {
+    Base64UrlSessionIdGenerator,
+    defaultSessionIdGenerator,
+    UuidSessionIdGenerator,
+    type SessionIdGenerator,
+} from "./session/SessionIdGenerator";
+import { computeFingerprint } from "./session/Fingerprint";
+import { RememberMe, type RememberMeResult } from "./session/RememberMe";
+import { SessionData } from "./session/SessionData";
+import {
+    SessionEventEmitter,
+    type SessionEventListener,
+    type SessionEventMap,
+    type SessionEventType,
+} from "./session/SessionEvents";
+import {
+    instrumentLockProvider,
+    instrumentStore,
+    type ResolutionOutcome,
+} from "./telemetry/SessionTelemetry";
+import { SessionKitError, isSessionKitError, toSessionKitError } from "./errors";
 import { nowMs, secondsToMs } from "./utils/time";
-import { newSessionId } from "./utils/uuid";
+import { randomToken, safeEqual } from "./utils/token";
 
 const TOKEN_REFRESH_LOCK_TTL_SECONDS = 10;
+const OWNER_LOCK_TTL_SECONDS = 10;
+const ROTATION_LOCK_TTL_SECONDS = 10;
+const DEFAULT_ROTATION_GRACE_SECONDS = 30;
+const DEFAULT_CSRF_HEADER = "x-csrf-token";
+const DEFAULT_CSRF_FIELD = "_csrf";
+const DEFAULT_CSRF_SAFE_METHODS = ["GET", "HEAD", "OPTIONS", "TRACE"];
+const DEFAULT_AUTH_LEVEL = 1;
+const DEFAULT_PENDING_TTL_SECONDS = 300;
+const DEFAULT_IMPERSONATION_TTL_SECONDS = 3600;
+const SESSION_WRITE_ATTEMPTS = 3;
+const REMEMBER_ME_AUTH_METHOD = "remember_me";
+const GUEST_STATE = "guest";
 
-function defaultCookieName(opts: SessionKitOptions<any, any>): string {
-    return opts.cookie?.name ?? "sid";
+function createTransport(opts: SessionKitOptions<any, any, any>): SessionTransport {
+    const transport = opts.transport ?? "cookie";
+    switch (transport) {
+        case "cookie":
+            return new CookieTransport(opts.cookie);
+        case "header":
+            return new BearerTransport();
+        case "both":
+            return new CombinedTransport([new CookieTransport(opts.cookie), new BearerTransport()]);
+        default:
+            return transport;
+    }
+}
+
+function createSessionIdGenerator(opts: SessionKitOptions<any, any, any>): SessionIdGenerator {
+    const generator = opts.sessionIdGenerator;
+    switch (generator) {
+        case undefined:
+            return defaultSessionIdGenerator;
+        case "uuid":
+            return new UuidSessionIdGenerator();
+        case "base64url":
+            return new Base64UrlSessionIdGenerator();
+        default:
+            return generator;
+    }
 }
 
-function defaultRenewBeforeSeconds(opts: SessionKitOptions<any, any>): number {
-    return opts.session.renewBeforeSeconds ?? opts.session.touchEverySeconds ?? 60;
-}
+function defaultRenewBeforeSeconds(opts: SessionKitOptions<any, any, any>): number {
+    return opts.session.renewBeforeSeconds ?? opts.session.touchEverySeconds ?? 60;
+}
+
+// capped at half the idle timeout so an active client's lastSeenAt never falls outside the window
+function defaultTouchEverySeconds(opts: SessionKitOptions<any, any, any>): number {
+    const touchEverySeconds = opts.session.touchEverySeconds ?? 60;
+    const idleTimeoutSeconds = opts.session.idleTimeoutSeconds;
+    return idleTimeoutSeconds === undefined ? touchEverySeconds : Math.min(touchEverySeconds, idleTimeoutSeconds / 2);
+}
+
+// lastSeenAt is only kept current when something reads it: the idle timeout or LRU eviction
+function tracksActivity(opts: SessionKitOptions<any, any, any>): boolean {
+    return opts.session.idleTimeoutSeconds !== undefined || opts.session.maxPerOwnerPolicy === "evict-lru";
+}
+
+type InternalAuth<TPayload, TPrincipal> = AuthContext<TPayload, TPrincipal> & {
+    transport?: SessionTransport; // transport that carried this request's session ID
+    data?: SessionData; // handle from SessionKit.data(), saved when the request ends
+};
+
+type Stored<TPayload, TPrincipal> = NonNullable<InternalAuth<TPayload, TPrincipal>["session"]>;
+
+type SessionWrite<TPayload, TPrincipal> = { session: Stored<TPayload, TPrincipal>; ttlSeconds: number };
+
+// adopted: a concurrent request already rotated the session, this is its successor
+type RotatedSession<TPayload, TPrincipal> = { sessionId: string; session: Stored<TPayload, TPrincipal>; adopted: boolean };
+
+/**
+ * Framework-agnostic session runtime responsible for auth context hydration,
+ * session creation/revocation, and optional token refresh behavior.
+ */
+export class SessionKit<TPayload, TPrincipal, TGuest = unknown> {
+    private readonly opts: SessionKitOptions<TPayload, TPrincipal, TGuest>;
+    private readonly transport: SessionTransport;
+    private readonly sessionIds: SessionIdGenerator;
+    private readonly lockProvider: NoopLockProvider | NonNullable<SessionKitOptions<TPayload, TPrincipal>["lockProvider"]>;
+    private readonly events: SessionEventEmitter<TPrincipal>;
+    private readonly rememberMe: RememberMe<TPayload> | undefined;
+
+    constructor(opts: SessionKitOptions<TPayload, TPrincipal, TGuest>) {
+        const telemetry = opts.telemetry;
+        const lockProvider = opts.lockProvider ?? new NoopLockProvider();
+        this.opts = telemetry ? { ...opts, store: instrumentStore(opts.store, telemetry) } : opts;
+        this.transport = createTransport(opts);
+        this.sessionIds = createSessionIdGenerator(opts);
+        this.lockProvider = telemetry ? instrumentLockProvider(lockProvider, telemetry) : lockProvider;
+        this.events = new SessionEventEmitter(opts.logger);
+        this.rememberMe = opts.rememberMe ? new RememberMe(opts.rememberMe, this.lockProvider, opts.logger) : undefined;
+    }
+
+    /**
+     * Subscribes to a session lifecycle event and returns an unsubscribe function. Listeners run
+     * without being awaited; a throwing listener is logged and never fails the request.
+     */
+    on<K extends SessionEventType>(type: K, listener: SessionEventListener<TPrincipal, K>): () => void {
+        return this.events.on(type, listener);
+    }
+
+    /**
+     * Removes a listener registered with {@link on}.
+     */
+    off<K extends SessionEventType>(type: K, listener: SessionEventListener<TPrincipal, K>): void {
+        this.events.off(type, listener);
+    }
+
+    /**
+     * Creates middleware that resolves session state and stores auth context. Changes made
+     * through {@link data} are saved once the request has been handled.
+     */
+    middleware(): HttpMiddleware {
+        return async (ctx, next) => {
+            try {
+                const auth = await this.resolveAuth(ctx);
+                ctx.setAuth<InternalAuth<TPayload, TPrincipal>>(auth);
+                if (ctx.beforeResponse) {
+                    ctx.beforeResponse(async () => {
+                        try {
+                            await this.saveData(ctx);
+                        } catch (e) {
+                            this.opts.logger?.warn("Failed to save session data.", { error: e });
+                        }
+                    });
+                    await next();
+                    return;
+                }
+                await next();
+                await this.saveData(ctx);
+            } catch (error) {
+                throw toSessionKitError(error);
+            }
+        };
+    }
+
+    /**
+     * Alias of {@link middleware}. Useful for readability in route composition.
+     */
+    optionalAuth(): HttpMiddleware {
+        return this.middleware();
+    }
+
+    /**
+     * Creates middleware that requires an authenticated session. Pending sessions are rejected
+     * unless their state is listed in `options.allowStates`.
+     */
+    requireAuth(options?: RequireAuthOptions): HttpMiddleware {
+        return async (ctx, next) => {
+            const auth = this.getAuth(ctx);
+            const allowed = auth.state !== null && !!options?.allowStates?.includes(auth.state);
+            if (!auth.isAuthenticated && !allowed) {
+                await this.handleUnauthorized(ctx, options);
+                return;
+            }
+            await next();
+        };
+    }
+
+    /**
+     * Creates middleware that requires an authenticated session whose principal satisfies `predicate`.
+     * Unauthenticated requests are handled like {@link requireAuth}; a failed predicate is FORBIDDEN,
+     * as is an impersonation session when `options.forbidImpersonation` is set.
+     */
+    requirePrincipal(predicate: PrincipalPredicate<TPrincipal>, options?: RequirePrincipalOptions): HttpMiddleware {
+        return async (ctx, next) => {
+            const auth = this.getAuth(ctx);
+            if (!auth.isAuthenticated || auth.principal === null) {
+                await this.handleUnauthorized(ctx, options);
+                return;
+            }
+            const impersonationDenied = !!options?.forbidImpersonation && auth.actor !== null;
+            if (impersonationDenied || !(await predicate(auth.principal, ctx))) {
+                if (options?.onForbidden) {
+                    await options.onForbidden(ctx);
+                    return;
+                }
+                if (this.opts.hooks?.onForbidden) {
+                    await this.opts.hooks.onForbidden(ctx);
+                    return;
+                }
+                throw new SessionKitError("FORBIDDEN", "Insufficient permissions.");
+            }
+            await next();
+        };
+    }
+
+    /**
+     * Creates middleware that requires the principal to hold `permissions` (all by default),
+     * as resolved by the `permissions` option.
+     */
+    requirePermissions(permissions: string | string[], options?: RequirePermissionsOptions): HttpMiddleware {
+        const resolve = this.opts.permissions;
+        if (!resolve) {
+            throw new SessionKitError("INTERNAL_ERROR", "requirePermissions needs the `permissions` option.");
+        }
+
+        const required = Array.isArray(permissions) ? permissions : [permissions];
+        const matchAny = options?.match === "any";
+        return this.requirePrincipal((principal) => {
+            const granted = new Set(resolve(principal));
+            return matchAny ? required.some((p) => granted.has(p)) : required.every((p) => granted.has(p));
+        }, options);
+    }
+
+    /**
+     * Creates middleware that requires a recent and strong enough (re-)authentication for
+     * sensitive actions. Stale or weak sessions fail with REAUTH_REQUIRED so clients can prompt
+     * for a password or MFA and call {@link markReauthenticated}.
+     */
+    requireRecentAuth(options?: RequireRecentAuthOptions): HttpMiddleware {
+        const minLevel = options?.minLevel ?? DEFAULT_AUTH_LEVEL;
+        const maxAgeSeconds = options?.maxAgeSeconds;
+
+        return async (ctx, next) => {
+            const auth = this.getAuth(ctx);
+            if (!auth.isAuthenticated || !auth.session) {
+                await this.handleUnauthorized(ctx, options);
+                return;
+            }
+
+            const { session } = auth;
+            const authenticatedAt = session.authenticatedAt ?? session.createdAt;
+            const stale = maxAgeSeconds !== undefined && nowMs() - authenticatedAt > secondsToMs(maxAgeSeconds);
+            if (stale || (session.authLevel ?? DEFAULT_AUTH_LEVEL) < minLevel) {
+                if (options?.onReauthRequired) {
+                    await options.onReauthRequired(ctx);
+                    return;
+                }
+                throw new SessionKitError("REAUTH_REQUIRED", "Recent authentication required.", undefined, {
+                    minLevel,
+                    ...(maxAgeSeconds !== undefined ? { maxAgeSeconds } : {}),
+                });
+            }
+            await next();
+        };
+    }
+
+    /**
+     * Creates middleware that issues a per-session synchronizer token and validates it on
+     * unsafe methods from a header or form field. Requests without a session, or authenticated
+     * with a bearer token, pass through.
+     * Must run after {@link middleware}.
+     */
+    csrf(options?: CsrfOptions): HttpMiddleware {
+        const headerName = options?.headerName ?? DEFAULT_CSRF_HEADER;
+        const fieldName = options?.fieldName ?? DEFAULT_CSRF_FIELD;
+        const safeMethods = (options?.safeMethods ?? DEFAULT_CSRF_SAFE_METHODS).map((m) => m.toUpperCase());
+
+        return async (ctx, next) => {
+            const auth = ctx.getAuth<InternalAuth<TPayload, TPrincipal>>();
+            // bearer credentials are never sent implicitly by the browser, so only cookie sessions are checked
+            if (auth?.sessionId && auth.session && auth.transport?.issuesOnResponse !== false) {
+                const expected = await this.ensureCsrfToken(ctx, auth);
+
+                if (!safeMethods.includes(ctx.getMethod().toUpperCase())) {
+                    const provided = ctx.getHeader(headerName) ?? (await ctx.getFormField?.(fieldName)) ?? null;
+                    if (!provided || !safeEqual(provided, expected)) {
+                        if (options?.onFail) {
+                            await options.onFail(ctx);
+                            return;
+                        }
+                        throw new SessionKitError("CSRF_REJECTED", "CSRF token missing or invalid.");
+                    }
+                }
+            }
+            await next();
+        };
+    }
+
+    /**
+     * Creates a new session, issues it through the transport (sets the cookie), and optionally
+     * hydrates request auth context. `SignInResult.token` is the value for bearer clients.
+     *
+     * A `state` other than `"authenticated"` creates a pending session (e.g. password accepted,
+     * MFA outstanding) with `session.pendingTtlSeconds`; promote it with {@link upgrade}.
+     *
+     * `rememberMe: true` also starts a persistent login (see `SessionKitOptions.rememberMe`).
+     *
+     * A guest session on the request is handed to `guest.merge` and deleted, so its ID never
+     * becomes an authenticated one. Guest sessions themselves are only created by {@link updateGuest}.
+     */
+    async signIn(
+        ctx: HttpContext,
+        payload: TPayload,
+        options?: SignInOptions
+    ): Promise<SignInResult<TPrincipal>> {
+        const state: SessionState = options?.state ?? "authenticated";
+        if (state === GUEST_STATE) {
+            throw new SessionKitError("INTERNAL_ERROR", "Guest sessions are created by updateGuest(), not signIn().");
+        }
+        const pending = state !== "authenticated";
+        if (options?.rememberMe && pending) {
+            throw new SessionKitError("INTERNAL_ERROR", "Pending sessions cannot be remembered; pass rememberMe to upgrade().");
+        }
+        const rememberMe = options?.rememberMe ? this.requireRememberMe() : undefined;
+
+        const guest = this.opts.guest ? ctx.getAuth<InternalAuth<TPayload, TPrincipal>>() : null;
+        const guestSessionId = guest?.state === GUEST_STATE ? guest.sessionId : null;
+        const merge = this.opts.guest?.merge;
+        if (guestSessionId && guest?.session && merge) {
+            payload = await merge(guestDataOf<TGuest>(guest.session), payload);
+        }
+
+        const { sessionId, session, ttlSeconds } = await this.startSession(ctx, payload, options);
+        const expiresAt = session.expiresAt;
+        if (guestSessionId) {
+            await this.moveData(ctx, guestSessionId, sessionId, ttlSeconds);
+            try {
+                await this.storeFor(ctx).del(guestSessionId);
+            } catch (e) {
+                this.opts.logger?.warn("Failed to delete guest session.", { sessionId: guestSessionId, error: e });
+            }
+        }
+        if (rememberMe) {
+            await this.issueRememberMe(ctx, rememberMe, session);
+        }
+
+        if (options?.setCookie ?? true) {
+            this.transport.issue(ctx, sessionId, ttlSeconds);
+        }
+
+        const principal = this.opts.principalFactory(payload);
+        this.opts.telemetry?.increment("sessionkit.sign_ins", { state });
+        this.emit(ctx, "created", { sessionId, principal: pending ? null : principal, reason: "sign_in", expiresAt });
+
+        if (options?.hydrateContext ?? true) {
+            ctx.setAuth<InternalAuth<TPayload, TPrincipal>>({
+                sessionId,
+                session,
+                principal: pending ? null : principal,
+                actor: null,
+                isAuthenticated: !pending,
+                state,
+                csrfToken: null,
+            });
+        }
+
+        return { sessionId, token: this.tokenFor(ctx, this.transport, sessionId), principal, expiresAt };
+    }
+
+    /**
+     * Promotes the current pending session to a fully authenticated one under a new ID
+     * (the pending ID is deleted) with a fresh `session.ttlSeconds` lifetime.
+     */
+    async upgrade(ctx: HttpContext, options?: UpgradeOptions): Promise<SignInResult<TPrincipal>> {
+        const auth = ctx.getAuth<InternalAuth<TPayload, TPrincipal>>();
+        if (!auth?.sessionId || !auth.session || auth.isAuthenticated || auth.state === GUEST_STATE) {
+            throw new SessionKitError("UNAUTHORIZED", "No pending session to upgrade.");
+        }
+
+        const rememberMe = options?.rememberMe ? this.requireRememberMe() : undefined;
+        const previousSessionId = auth.sessionId;
+        const { state: _state, rotatedAt: _rotatedAt, ...pending } = auth.session;
+        const now = nowMs();
+        const ttl = this.capTtl({ createdAt: now }, options?.ttlSeconds ?? this.opts.session.ttlSeconds, now);
+        const sessionId = this.sessionIds.generate();
+        const ownerKey = this.opts.ownerKey?.(pending.payload);
+        const authMethod = options?.authMethod ?? pending.authMethod;
+        const session: Stored<TPayload, TPrincipal> = {
+            ...pending,
+            createdAt: now,
+            expiresAt: now + secondsToMs(ttl),
+            lastSeenAt: now,
+            version: 1,
+            authenticatedAt: now,
+            authLevel: options?.authLevel ?? DEFAULT_AUTH_LEVEL,
+            ...(authMethod !== undefined ? { authMethod } : {}),
+            ...(ownerKey !== undefined ? { ownerKey } : {}),
+        };
+
+        await this.reportEvicted(ctx, await this.createSession(ctx, sessionId, session, ttl));
+        await this.moveData(ctx, previousSessionId, sessionId, ttl);
+        try {
+            await this.storeFor(ctx).del(previousSessionId);
+        } catch (e) {
+            this.opts.logger?.warn("Failed to delete pending session.", { sessionId: previousSessionId, error: e });
+        }
+        if (rememberMe) {
+            await this.issueRememberMe(ctx, rememberMe, session);
+        }
+
+        const transport = auth.transport ?? this.transport;
+        transport.issue(ctx, sessionId, ttl);
+
+        const principal = this.opts.principalFactory(session.payload);
+        this.emit(ctx, "created", { sessionId, principal, reason: "upgrade", expiresAt: session.expiresAt });
+        ctx.setAuth<InternalAuth<TPayload, TPrincipal>>({
+            sessionId,
+            session,
+            principal,
+            actor: null,
+            isAuthenticated: true,
+            state: "authenticated",
+            csrfToken: session.csrfToken ?? null,
+            transport,
+        });
+
+        return { sessionId, token: this.tokenFor(ctx, transport, sessionId), principal, expiresAt: session.expiresAt };
+    }
+
+    /**
+     * Starts acting as `targetPayload` ("log in as") under a new session ID. The admin's own
+     * session is kept untouched in the store and recorded as `StoredSession.impersonator`;
+     * the impersonation session is capped by `session.impersonationTtlSeconds`. Authorize who
+     * may call this (e.g. with {@link requirePermissions}) before calling it.
+     */
+    async impersonate(
+        ctx: HttpContext,
+        targetPayload: TPayload,
+        options?: ImpersonateOptions
+    ): Promise<SignInResult<TPrincipal>> {
+        const auth = ctx.getAuth<InternalAuth<TPayload, TPrincipal>>();
+        if (!auth?.isAuthenticated || !auth.sessionId || !auth.session) {
+            throw new SessionKitError("UNAUTHORIZED", "Authentication required.");
+        }
+        if (auth.session.impersonator) {
+            throw new SessionKitError("FORBIDDEN", "Already impersonating.");
+        }
+
+        const actorSession = auth.session;
+        const now = nowMs();
+        const maxTtl = this.opts.session.impersonationTtlSeconds ?? DEFAULT_IMPERSONATION_TTL_SECONDS;
+        // the actor session has to outlive the impersonation so stopImpersonating can return to it
+        const ttl = Math.min(
+            options?.ttlSeconds ?? maxTtl,
+            maxTtl,
+            Math.floor((actorSession.expiresAt - now) / 1000)
+        );
+        if (ttl <= 0) {
+            throw new SessionKitError("SESSION_EXPIRED", "Session expired.");
+        }
+
+        const sessionId = this.sessionIds.generate();
+        const expiresAt = now + secondsToMs(ttl);
+        // indexed under the actor, so revokeAllFor(actor) ends it; never under the target
+        const session: Stored<TPayload, TPrincipal> = {
+            payload: targetPayload,
+            createdAt: now,
+            expiresAt,
+            lastSeenAt: now,
+            version: 1,
+            authenticatedAt: actorSession.authenticatedAt ?? actorSession.createdAt,
+            authLevel: actorSession.authLevel ?? DEFAULT_AUTH_LEVEL,
+            ...(actorSession.authMethod !== undefined ? { authMethod: actorSession.authMethod } : {}),
+            ...(actorSession.fingerprint !== undefined ? { fingerprint: actorSession.fingerprint } : {}),
+            ...(actorSession.ownerKey !== undefined ? { ownerKey: actorSession.ownerKey } : {}),
+            impersonator: { payload: actorSession.payload, sessionId: auth.sessionId, startedAt: now, endsAt: expiresAt },
+        };
+        await this.reportEvicted(ctx, await this.createSession(ctx, sessionId, session, ttl));
+
+        const transport = auth.transport ?? this.transport;
+        transport.issue(ctx, sessionId, ttl);
+
+        const principal = this.opts.principalFactory(targetPayload);
+        this.emit(ctx, "created", { sessionId, principal, reason: "impersonation", expiresAt });
+        ctx.setAuth<InternalAuth<TPayload, TPrincipal>>({
+            sessionId,
+            session,
+            principal,
+            actor: auth.principal,
+            isAuthenticated: true,
+            state: "authenticated",
+            csrfToken: null,
+            transport,
+        });
+
+        this.opts.logger?.info("Impersonation started.", { sessionId, actorSessionId: auth.sessionId });
+        if (this.opts.hooks?.onImpersonation) {
+            await this.opts.hooks.onImpersonation(ctx, {
+                type: "start",
+                actor: actorSession.payload,
+                target: targetPayload,
+                sessionId,
+                actorSessionId: auth.sessionId,
+            });
+        }
+
+        return { sessionId, token: this.tokenFor(ctx, transport, sessionId), principal, expiresAt };
+    }
+
+    /**
+     * Ends impersonation: deletes the impersonation session and switches back to the actor's own
+     * session. Returns `null` (and signs out) when the actor session no longer exists.
+     */
+    async stopImpersonating(ctx: HttpContext): Promise<SignInResult<TPrincipal> | null> {
+        const auth = ctx.getAuth<InternalAuth<TPayload, TPrincipal>>();
+        const impersonator = auth?.session?.impersonator;
+        if (!auth?.sessionId || !auth.session || !impersonator) {
+            throw new SessionKitError("UNAUTHORIZED", "Not impersonating.");
+        }
+
+        const sessionId = auth.sessionId;
+        let actorSession: Stored<TPayload, TPrincipal> | null;
+        try {
+            await this.storeFor(ctx).del(sessionId);
+            actorSession = await this.storeFor(ctx).get(impersonator.sessionId);
+        } catch (error) {
+            throw new SessionKitError("STORE_UNAVAILABLE", "Failed to end impersonation.", error);
+        }
+
+        this.opts.logger?.info("Impersonation stopped.", { sessionId, actorSessionId: impersonator.sessionId });
+        if (this.opts.hooks?.onImpersonation) {
+            await this.opts.hooks.onImpersonation(ctx, {
+                type: "stop",
+                actor: impersonator.payload,
+                target: auth.session.payload,
+                sessionId,
+                actorSessionId: impersonator.sessionId,
+            });
+        }
+
+        const transport = auth.transport ?? this.transport;
+        const ttl = actorSession ? Math.ceil((actorSession.expiresAt - nowMs()) / 1000) : 0;
+        if (!actorSession || ttl <= 0) {
+            transport.clear(ctx);
+            ctx.setAuth<InternalAuth<TPayload, TPrincipal>>(unauthContext());
+            return null;
+        }
+
+        transport.issue(ctx, impersonator.sessionId, ttl);
+        const principal = this.opts.principalFactory(actorSession.payload);
+        ctx.setAuth<InternalAuth<TPayload, TPrincipal>>({
+            sessionId: impersonator.sessionId,
+            session: actorSession,
+            principal,
+            actor: null,
+            isAuthenticated: true,
+            state: "authenticated",
+            csrfToken: actorSession.csrfToken ?? null,
+            transport,
+        });
+
+        return {
+            sessionId: impersonator.sessionId,
+            token: this.tokenFor(ctx, transport, impersonator.sessionId),
+            principal,
+            expiresAt: actorSession.expiresAt,
+        };
+    }
+
+    /**
+     * Moves the current session under a new ID, deletes the old store entry, and re-issues
+     * the cookie (bearer clients switch to `RotateResult.token`). Call after privilege changes (role elevation, MFA completion, password change).
+     */
+    async rotate(ctx: HttpContext, options?: RotateOptions): Promise<RotateResult> {
+        const auth = ctx.getAuth<InternalAuth<TPayload, TPrincipal>>();
+        if (!auth?.isAuthenticated || !auth.sessionId || !auth.session) {
+            throw new SessionKitError("UNAUTHORIZED", "Authentication required.");
+        }
+
+        const previousSessionId = auth.sessionId;
+        const transport = auth.transport ?? this.transport;
+        const rotated = await this.rotateSession(
+            ctx,
+            transport,
+            previousSessionId,
+            auth.session,
+            options?.graceSeconds ?? 0
+        );
+        if (!rotated.adopted) {
+            this.emit(ctx, "rotated", {
+                sessionId: rotated.sessionId,
+                principal: auth.principal,
+                reason: "manual",
+                previousSessionId,
+            });
+        }
+        ctx.setAuth<InternalAuth<TPayload, TPrincipal>>({
+            ...auth,
+            sessionId: rotated.sessionId,
+            session: rotated.session,
+        });
+
+        return {
+            sessionId: rotated.sessionId,
+            token: this.tokenFor(ctx, transport, rotated.sessionId),
+            previousSessionId,
+            expiresAt: rotated.session.expiresAt,
+        };
+    }
+
+    /**
+     * Replaces the current session's payload (e.g. switching organisation or locale) and
+     * re-hydrates the auth context. The expiry, store TTL and cookie are left unchanged.
+     */
+    async updateSession(
+        ctx: HttpContext,
+        updater: (payload: TPayload) => TPayload | Promise<TPayload>
+    ): Promise<StoredSession<TPayload>> {
+        const auth = this.requireCurrentSession(ctx);
+        const next = await this.saveSession(ctx, auth.sessionId, auth.session, async (latest) => {
+            const payload = await updater(latest.payload);
+            // only re-derive the owner of sessions that are already owner-indexed; impersonation stays with the actor
+            const reindex = latest.ownerKey !== undefined && !latest.impersonator;
+            const ownerKey = reindex ? this.opts.ownerKey?.(payload) : undefined;
+            return { ...latest, payload, ...(ownerKey !== undefined ? { ownerKey } : {}) };
+        });
+
+        ctx.setAuth<InternalAuth<TPayload, TPrincipal>>({
+            ...auth,
+            session: next,
+            principal: this.opts.principalFactory(next.payload),
+        });
+        return next;
+    }
+
+    /**
+     * Pushes the current session's expiry back by `seconds` (bounded by `session.absoluteTtlSeconds`
+     * and any impersonation cap), keeping `expiresAt`, the store TTL and the cookie Max-Age in sync.
+     */
+    async extendSession(ctx: HttpContext, seconds: number): Promise<StoredSession<TPayload>> {
+        const auth = this.requireCurrentSession(ctx);
+        const { session: next, ttlSeconds } = await this.commitSession(ctx, auth.sessionId, auth.session, (latest) => {
+            const now = nowMs();
+            const ttlSeconds = this.capTtl(latest, Math.ceil((latest.expiresAt - now) / 1000) + seconds, now);
+            if (ttlSeconds <= 0) {
+                throw new SessionKitError("SESSION_EXPIRED", "Session expired.");
+            }
+            return {
+                session: { ...latest, expiresAt: Math.min(now + secondsToMs(ttlSeconds), this.absoluteDeadline(latest)) },
+                ttlSeconds,
+            };
+        });
+
+        (auth.transport ?? this.transport).issue(ctx, auth.sessionId, ttlSeconds);
+        ctx.setAuth<InternalAuth<TPayload, TPrincipal>>({ ...auth, session: next });
+        return next;
+    }
+
+    /**
+     * Records a successful step-up (password re-entry, MFA) on the current session: resets
+     * `authenticatedAt` and sets `authLevel`. Consider calling {@link rotate} afterwards.
+     */
+    async markReauthenticated(ctx: HttpContext, level: number, options?: ReauthenticateOptions): Promise<void> {
+        const auth = ctx.getAuth<InternalAuth<TPayload, TPrincipal>>();
+        if (!auth?.isAuthenticated || !auth.sessionId || !auth.session) {
+            throw new SessionKitError("UNAUTHORIZED", "Authentication required.");
+        }
+
+        const next = await this.saveSession(ctx, auth.sessionId, auth.session, (latest) => {
+            const { authMethod: _previousMethod, ...session } = latest;
+            return {
+                ...session,
+                authenticatedAt: nowMs(),
+                authLevel: level,
+                ...(options?.method !== undefined ? { authMethod: options.method } : {}),
+            };
+        });
+        ctx.setAuth<InternalAuth<TPayload, TPrincipal>>({ ...auth, session: next });
+    }
+
+    /**
+     * Writes guest data for an anonymous visitor. The first write creates the guest session and
+     * sets its cookie; every write renews it for `guest.ttlSeconds`. Must run after {@link middleware}.
+     */
+    async updateGuest(
+        ctx: HttpContext,
+        updater: (data: TGuest | null) => TGuest | Promise<TGuest>
+    ): Promise<TGuest> {
+        const guestOptions = this.opts.guest;
+        if (!guestOptions) {
+            throw new SessionKitError("INTERNAL_ERROR", "Guest sessions are not configured.");
+        }
+        const auth = ctx.getAuth<InternalAuth<TPayload, TPrincipal>>();
+        if (auth?.session && auth.state !== GUEST_STATE) {
+            throw new SessionKitError("INTERNAL_ERROR", "Guest data cannot be written to a signed-in session.");
+        }
+
+        const ttlSeconds = guestOptions.ttlSeconds;
+        if (auth?.sessionId && auth.session) {
+            const transport = auth.transport ?? this.transport;
+            const next = await this.saveSession(ctx, auth.sessionId, auth.session, async (latest) => {
+                const now = nowMs();
+                const data = await updater(guestDataOf<TGuest>(latest));
+                return { ...latest, guest: data, expiresAt: now + secondsToMs(ttlSeconds), lastSeenAt: now };
+            });
+            transport.issue(ctx, auth.sessionId, ttlSeconds);
+            ctx.setAuth<InternalAuth<TPayload, TPrincipal>>({ ...auth, session: next });
+            return guestDataOf<TGuest>(next);
+        }
+
+        // the guest ID only ever reaches the client through the response
+        const transport = this.transport;
+        if (!transport.issuesOnResponse) {
+            throw new SessionKitError("INTERNAL_ERROR", "Guest sessions require a cookie transport.");
+        }
+        const data = await updater(null);
+        const now = nowMs();
+        const sessionId = this.sessionIds.generate();
+        const session: Stored<TPayload, TPrincipal> = {
+            // a guest has no payload; nothing reads it while `state` is "guest"
+            payload: null as TPayload,
+            guest: data,
+            createdAt: now,
+            expiresAt: now + secondsToMs(ttlSeconds),
+            lastSeenAt: now,
+            version: 1,
+            state: GUEST_STATE,
+        };
+        await this.createSession(ctx, sessionId, session, ttlSeconds);
+        transport.issue(ctx, sessionId, ttlSeconds);
+
+        this.emit(ctx, "created", { sessionId, principal: null, reason: "guest", expiresAt: session.expiresAt });
+        ctx.setAuth<InternalAuth<TPayload, TPrincipal>>({
+            sessionId,
+            session,
+            principal: null,
+            actor: null,
+            isAuthenticated: false,
+            state: GUEST_STATE,
+            csrfToken: null,
+            transport,
+        });
+        return data;
+    }
+
+    /**
+     * Returns the key/value data of the request's session (authenticated, pending or guest),
+     * kept apart from the payload. It is loaded on first read, saved by {@link middleware} only
+     * when changed, follows the session across ID rotation and expires with it.
+     */
+    data(ctx: HttpContext): SessionData {
+        const store = this.storeFor(ctx);
+        const getData = store.getData?.bind(store);
+        if (!getData || !store.patchData) {
+            throw new SessionKitError("INTERNAL_ERROR", "Session store does not support session data.");
+        }
+        const auth = ctx.getAuth<InternalAuth<TPayload, TPrincipal>>();
+        const initialSessionId = auth?.sessionId;
+        if (!auth || !initialSessionId || !auth.session) {
+            throw new SessionKitError("UNAUTHORIZED", "Session data requires a session.");
+        }
+
+        auth.data ??= new SessionData(async () => {
+            // the ID may have been rotated since the handle was created
+            const sessionId = ctx.getAuth<InternalAuth<TPayload, TPrincipal>>()?.sessionId ?? initialSessionId;
+            try {
+                return await getData(sessionId);
+            } catch (error) {
+                // e.g. INTERNAL_ERROR from a wrapper store whose inner store has no data support
+                throw isSessionKitError(error)
+                    ? error
+                    : new SessionKitError("STORE_UNAVAILABLE", "Failed to load session data.", error);
+            }
+        });
+        return auth.data;
+    }
+
+    /**
+     * Deletes session data and clears the session cookie. Bearer requests get no `Set-Cookie`.
+     * A remember-me series presented with the request is deleted as well.
+     */
+    async signOut(ctx: HttpContext, options?: SignOutOptions): Promise<void> {
+        const alwaysClear = options?.alwaysClearCookie ?? true;
+        const { sessionId: sid, transport } = this.transport.read(ctx);
+
+        try {
+            if (sid && this.sessionIds.validate(sid)) {
+                const store = this.storeFor(ctx);
+                const auth = ctx.getAuth<InternalAuth<TPayload, TPrincipal>>();
+                const current = auth?.sessionId === sid ? auth.session : await store.get(sid);
+                await store.del(sid);
+                const principal = auth?.sessionId === sid ? auth.principal : null;
+                this.emit(ctx, "revoked", { sessionId: sid, principal, reason: "sign_out" });
+
+                // signing out while impersonating also ends the actor's own session
+                const actorSessionId = current?.impersonator?.sessionId;
+                if (actorSessionId !== undefined) {
+                    await store.del(actorSessionId);
+                    this.emit(ctx, "revoked", { sessionId: actorSessionId, principal: null, reason: "sign_out" });
+                }
+            }
+            await this.rememberMe?.deleteSeries(ctx);
+        } catch (e) {
+            this.opts.logger?.warn("Failed to delete session from store.", { error: e });
+            if (!alwaysClear) {
+                throw new SessionKitError("STORE_UNAVAILABLE", "Failed to delete session.", e);
+            }
+        }
+
+        transport.clear(ctx);
+        this.rememberMe?.clearCookie(ctx);
+        ctx.setAuth<InternalAuth<TPayload, TPrincipal>>(unauthContext());
+    }
+
+    /**
+     * Lists live sessions belonging to an owner. Requires `ownerKey` and an owner-indexed store.
+     * IDs superseded by a rotation are left out: they share a device with their successor.
+     */
+    async listSessionsFor(ownerKey: string): Promise<OwnedSession<TPayload>[]> {
+        const store = this.opts.store;
+        if (!store.listByOwner) {
+            throw new SessionKitError("INTERNAL_ERROR", "Session store does not support owner indexing.");
+        }
+
+        try {
+            return (await store.listByOwner(ownerKey)).filter(({ session }) => session.rotatedTo === undefined);
+        } catch (error) {
+            // e.g. INTERNAL_ERROR from a wrapper store whose inner store has no owner index
+            throw isSessionKitError(error)
+                ? error
+                : new SessionKitError("STORE_UNAVAILABLE", "Failed to list sessions.", error);
+        }
+    }
+
+    /**
+     * Revokes every session belonging to an owner ("log out everywhere") and returns how many were removed.
+     * All of the owner's remember-me series are deleted too, including the one of `exceptSessionId`'s device.
+     */
+    async revokeAllFor(ownerKey: string, options?: RevokeAllOptions): Promise<number> {
+        const store = this.opts.store;
+        if (!store.listByOwner || !store.deleteByOwner) {
+            throw new SessionKitError("INTERNAL_ERROR", "Session store does not support owner indexing.");
+        }
+        if (this.rememberMe && !this.rememberMe.supportsOwnerIndex) {
+            throw new SessionKitError("INTERNAL_ERROR", "Remember-me store does not support owner indexing.");
+        }
+
+        try {
+            await this.rememberMe?.deleteByOwner(ownerKey);
+            const exceptSessionId = options?.exceptSessionId;
+            if (exceptSessionId === undefined) {
+                return await store.deleteByOwner(ownerKey);
+            }
+
+            // listings of stores that hash IDs at rest report hashed IDs, under any of their secrets
+            const except = new Set(
+                store.hashIds?.(exceptSessionId) ?? [store.hashId ? store.hashId(exceptSessionId) : exceptSessionId]
+            );
+            let revoked = 0;
+            for (const { sessionId } of await store.listByOwner(ownerKey)) {
+                if (except.has(sessionId)) continue;
+                await this.deleteListed(sessionId);
+                revoked += 1;
+            }
+            return revoked;
+        } catch (error) {
+            throw isSessionKitError(error)
+                ? error
+                : new SessionKitError("STORE_UNAVAILABLE", "Failed to revoke sessions.", error);
+        }
+    }
+
+    /**
+     * Returns auth context attached to the request, or an unauthenticated default value.
+     */
+    getAuth(ctx: HttpContext): AuthContext<TPayload, TPrincipal> {
+        const found = ctx.getAuth<InternalAuth<TPayload, TPrincipal>>();
+        if (found) return stripInternal(found);
+
+        return unauthContext();
+    }
+
+    /**
+     * Returns the guest data of the request's guest session, or null without one.
+     */
+    getGuest(ctx: HttpContext): TGuest | null {
+        const auth = ctx.getAuth<InternalAuth<TPayload, TPrincipal>>();
+        return auth?.state === GUEST_STATE && auth.session ? guestDataOf<TGuest>(auth.session) : null;
+    }
+
+    private requireCurrentSession(
+        ctx: HttpContext
+    ): InternalAuth<TPayload, TPrincipal> & { sessionId: string; session: Stored<TPayload, TPrincipal> } {
+        const auth = ctx.getAuth<InternalAuth<TPayload, TPrincipal>>();
+        if (!auth?.isAuthenticated || !auth.sessionId || !auth.session) {
+            throw new SessionKitError("UNAUTHORIZED", "Authentication required.");
+        }
+        return { ...auth, sessionId: auth.sessionId, session: auth.session };
+    }
+
+    private requireRememberMe(): RememberMe<TPayload> {
+        if (!this.rememberMe) {
+            throw new SessionKitError("INTERNAL_ERROR", "Remember-me is not configured.");
+        }
+        return this.rememberMe;
+    }
+
+    private async issueRememberMe(
+        ctx: HttpContext,
+        rememberMe: RememberMe<TPayload>,
+        session: Stored<TPayload, TPrincipal>
+    ): Promise<void> {
+        try {
+            const authenticatedAt = session.authenticatedAt ?? session.createdAt;
+            await rememberMe.issue(ctx, session.payload, authenticatedAt, this.opts.ownerKey?.(session.payload));
+        } catch (error) {
+            throw new SessionKitError("STORE_UNAVAILABLE", "Failed to save remember-me series.", error);
+        }
+    }
+
+    /**
+     * Store for `ctx`. Request-scoped stores such as `CookieSessionStore` hand out a view bound
+     * to the request's cookies.
+     */
+    private storeFor(ctx: HttpContext): SessionStore<TPayload> {
+        return this.opts.store.forRequest?.(ctx) ?? this.opts.store;
+    }
+
+    /**
+     * Deletes a session by the ID `listByOwner` reported for it.
+     */
+    private async deleteListed(sessionId: string): Promise<void> {
+        const store = this.opts.store;
+        await (store.delByHash ? store.delByHash(sessionId) : store.del(sessionId));
+    }
+
+    /**
+     * The credential a client presents for `sessionId`: the ID itself unless the transport signs it.
+     */
+    private tokenFor(ctx: HttpContext, transport: SessionTransport, sessionId: string): string {
+        return transport.token?.(ctx, sessionId) ?? sessionId;
+    }
+
+    /**
+     * Writes the unsaved changes of the request's {@link data} handle.
+     */
+    private async saveData(ctx: HttpContext): Promise<void> {
+        const auth = ctx.getAuth<InternalAuth<TPayload, TPrincipal>>();
+        const store = this.storeFor(ctx);
+        const patch = auth?.data?.takePatch();
+        if (!patch || !auth?.sessionId || !auth.session || !store.patchData) {
+            return;
+        }
+
+        const ttlSeconds = Math.ceil((auth.session.expiresAt - nowMs()) / 1000);
+        if (ttlSeconds <= 0) {
+            return;
+        }
+        try {
+            await store.patchData(auth.sessionId, patch, ttlSeconds);
+        } catch (error) {
+            throw isSessionKitError(error)
+                ? error
+                : new SessionKitError("STORE_UNAVAILABLE", "Failed to save session data.", error);
+        }
+    }
+
+    /**
+     * Copies session data to the session's new ID, unsaved changes of the request included.
+     * A failure only loses the data, never the new session.
+     */
+    private async moveData(ctx: HttpContext, fromId: string, toId: string, ttlSeconds: number): Promise<void> {
+        const store = this.storeFor(ctx);
+        if (!store.getData || !store.patchData) {
+            return;
+        }
+
+        try {
+            await this.saveData(ctx);
+            const data = await store.getData(fromId);
+            if (Object.keys(data).length > 0) {
+                await store.patchData(toId, { set: data, delete: [] }, ttlSeconds);
+            }
+        } catch (e) {
+            this.opts.logger?.warn("Failed to move session data.", { sessionId: toId, error: e });
+        }
+    }
+
+    private emit<K extends SessionEventType>(ctx: HttpContext, type: K, event: SessionEventMap<TPrincipal>[K]): void {
+        this.events.emit(type, event, ctx);
+    }
+
+    private principalOf(stored: Stored<TPayload, TPrincipal>): TPrincipal | null {
+        const pending = (stored.state ?? "authenticated") !== "authenticated";
+        return pending ? null : this.opts.principalFactory(stored.payload);
+    }
+
+    private async reportEvicted(ctx: HttpContext, evicted: OwnedSession<TPayload>[]): Promise<void> {
+        if (!this.opts.hooks?.onSessionEvicted) {
+            return;
+        }
+        for (const entry of evicted) {
+            await this.opts.hooks.onSessionEvicted(ctx, entry);
+        }
+    }
+
+    private async handleUnauthorized(ctx: HttpContext, options?: RequireAuthOptions): Promise<void> {
+        if (options?.onFail) {
+            await options.onFail(ctx);
+            return;
+        }
+        if (this.opts.hooks?.onUnauthorized) {
+            await this.opts.hooks.onUnauthorized(ctx);
+            return;
+        }
+        throw new SessionKitError("UNAUTHORIZED", "Authentication required.");
+    }
+
+    private async resolveAuth(ctx: HttpContext): Promise<InternalAuth<TPayload, TPrincipal>> {
+        const telemetry = this.opts.telemetry;
+        if (!telemetry) {
+            return this.buildAuthContext(ctx);
+        }
+
+        const startedAt = nowMs();
+        try {
+            return await telemetry.trace("sessionkit.resolve", () => this.buildAuthContext(ctx));
+        } finally {
+            telemetry.record("sessionkit.resolve.duration", nowMs() - startedAt);
+        }
+    }
+
+    private countResolution(outcome: ResolutionOutcome): void {
+        this.opts.telemetry?.increment("sessionkit.resolutions", { outcome });
+    }
+
+    private async buildAuthContext(ctx: HttpContext): Promise<InternalAuth<TPayload, TPrincipal>> {
+        const { sessionId: sid, tampered, transport } = this.transport.read(ctx);
+        if (tampered) {
+            this.opts.logger?.debug("Session credential rejected.");
+            transport.clear(ctx);
+            if (this.opts.hooks?.onInvalidSession) {
+                await this.opts.hooks.onInvalidSession(ctx, "INVALID_SIGNATURE");
+            }
+            this.countResolution("invalid_signature");
+            return unauthContext();
+        }
+        if (!sid) {
+            return this.resolveWithoutSession(ctx, transport, "anonymous");
+        }
+        if (!this.sessionIds.validate(sid)) {
+            this.opts.logger?.debug("Malformed session ID rejected.");
+            transport.clear(ctx);
+            if (this.opts.hooks?.onInvalidSession) {
+                await this.opts.hooks.onInvalidSession(ctx, "INVALID_SESSION_ID");
+            }
+            this.countResolution("invalid_id");
+            return unauthContext();
+        }
+
+        let stored: Stored<TPayload, TPrincipal> | null;
+        try {
+            stored = await this.storeFor(ctx).get(sid);
+        } catch (error) {
+            throw new SessionKitError("STORE_UNAVAILABLE", "Failed to read session.", error);
+        }
+        if (!stored) {
+            this.opts.logger?.debug("Session not found.", { sessionId: sid });
+            transport.clear(ctx);
+            if (this.opts.hooks?.onInvalidSession) {
+                await this.opts.hooks.onInvalidSession(ctx, "SESSION_NOT_FOUND");
+            }
+            return this.resolveWithoutSession(ctx, transport, "not_found");
+        }
+
+        // guest sessions carry guest data instead of a payload and only expire by their TTL
+        const guest = stored.state === GUEST_STATE;
+
+        // Optional payload migration
+        try {
+            if (this.opts.payloadTransformer && !guest) {
+                // allow transforming payload only (not createdAt/expiresAt)
+                const transformed = this.opts.payloadTransformer(stored.payload as unknown);
+                stored = { ...stored, payload: transformed };
+            }
+        } catch (e) {
+            this.opts.logger?.warn("Invalid session payload.", { error: e });
+            transport.clear(ctx);
+            if (this.opts.hooks?.onInvalidSession) {
+                await this.opts.hooks.onInvalidSession(ctx, "INVALID_PAYLOAD");
+            }
+            this.countResolution("invalid_payload");
+            return unauthContext();
+        }
+
+        if (!guest && nowMs() >= this.absoluteDeadline(stored)) {
+            this.opts.logger?.debug("Session reached its absolute lifetime.", { sessionId: sid });
+            try {
+                await this.storeFor(ctx).del(sid);
+            } catch (e) {
+                this.opts.logger?.warn("Failed to delete expired session.", { sessionId: sid, error: e });
+            }
+            transport.clear(ctx);
+            this.emit(ctx, "expired", { sessionId: sid, principal: this.principalOf(stored), reason: "absolute_ttl" });
+            if (this.opts.hooks?.onInvalidSession) {
+                await this.opts.hooks.onInvalidSession(ctx, "SESSION_EXPIRED");
+            }
+            return this.resolveWithoutSession(ctx, transport, "expired");
+        }
+
+        const idleTimeoutSeconds = this.opts.session.idleTimeoutSeconds;
+        if (
+            !guest &&
+            idleTimeoutSeconds !== undefined &&
+            nowMs() - (stored.lastSeenAt ?? stored.createdAt) >= secondsToMs(idleTimeoutSeconds)
+        ) {
+            this.opts.logger?.debug("Session idle timeout reached.", { sessionId: sid });
+            try {
+                await this.storeFor(ctx).del(sid);
+            } catch (e) {
+                this.opts.logger?.warn("Failed to delete idle session.", { sessionId: sid, error: e });
+            }
+            transport.clear(ctx);
+            this.emit(ctx, "expired", { sessionId: sid, principal: this.principalOf(stored), reason: "idle_timeout" });
+            if (this.opts.hooks?.onInvalidSession) {
+                await this.opts.hooks.onInvalidSession(ctx, "IDLE_TIMEOUT");
+            }
+            return this.resolveWithoutSession(ctx, transport, "idle_timeout");
+        }
+
+        if (nowMs() >= stored.expiresAt) {
+            this.opts.logger?.debug("Session expired.", { sessionId: sid });
+            transport.clear(ctx);
+            this.emit(ctx, "expired", { sessionId: sid, principal: this.principalOf(stored), reason: "ttl" });
+            return this.resolveWithoutSession(ctx, transport, "expired");
+        }
+
+        // Sessions created before fingerprinting was enabled carry no fingerprint and are not checked.
+        const fingerprint = this.opts.fingerprint;
+        if (fingerprint && stored.fingerprint !== undefined && computeFingerprint(ctx, fingerprint) !== stored.fingerprint) {
+            const onMismatch = fingerprint.onMismatch ?? "reject";
+            this.opts.logger?.warn("Session fingerprint mismatch.", { sessionId: sid, onMismatch });
+            if (onMismatch === "revoke") {
+                try {
+                    await this.storeFor(ctx).del(sid);
+                    this.emit(ctx, "revoked", {
+                        sessionId: sid,
+                        principal: this.principalOf(stored),
+                        reason: "fingerprint_mismatch",
+                    });
+                } catch (e) {
+                    this.opts.logger?.warn("Failed to revoke session after fingerprint mismatch.", {
+                        sessionId: sid,
+                        error: e,
+                    });
+                }
+            }
+            if (onMismatch !== "log") {
+                transport.clear(ctx);
+            }
+            if (this.opts.hooks?.onInvalidSession) {
+                await this.opts.hooks.onInvalidSession(ctx, "FINGERPRINT_MISMATCH");
+            }
+            if (onMismatch !== "log") {
+                this.countResolution("fingerprint_mismatch");
+                return unauthContext();
+            }
+        }
+
+        // A superseded ID inside its rotation grace window resolves as-is, without side effects.
+        const superseded = stored.rotatedTo !== undefined;
+        // Pending and guest sessions keep their own TTL: no refresh, rotation, or rolling renewal.
+        const state = stored.state ?? "authenticated";
+        const pending = state !== "authenticated";
+        let sessionId = sid;
 
-type InternalAuth<TPayload, TPrincipal> = AuthContext<TPayload, TPrincipal>;
+        if (!superseded && !pending) {
+            stored = await this.maybeRefreshTokenSession(ctx, transport, sid, stored);
+            if (!stored) {
+                this.countResolution("refresh_failed");
+                return unauthContext();
+            }
 
-/**
- * Framework-agnostic session runtime responsible for auth context hydration,
- * session creation/revocation, and optional token refresh behavior.
- */
-export class SessionKit<TPayload, TPrincipal> {
-    private readonly cookieName: string;
-    private readonly lockProvider: NoopLockProvider | NonNullable<SessionKitOptions<TPayload, TPrincipal>["lockProvider"]>;
+            // bearer clients only learn a new ID from rotate(), so automatic rotation needs a cookie
+            if (transport.issuesOnResponse && this.isRotationDue(stored)) {
+                try {
+                    const graceSeconds = this.opts.session.rotationGraceSeconds ?? DEFAULT_ROTATION_GRACE_SECONDS;
+                    const rotated = await this.rotatePeriodically(ctx, transport, sid, graceSeconds);
+                    if (rotated) {
+                        ({ sessionId, session: stored } = rotated);
+                    }
+                    if (rotated && !rotated.adopted) {
+                        this.emit(ctx, "rotated", {
+                            sessionId,
+                            principal: this.principalOf(stored),
+                            reason: "periodic",
+                            previousSessionId: sid,
+                        });
+                    }
+                } catch (e) {
+                    this.opts.logger?.warn("Failed to rotate session ID.", { sessionId: sid, error: e });
+                }
+            }
+        }
+
+        const principal = pending ? null : this.opts.principalFactory(stored.payload);
+        const actor = stored.impersonator ? this.opts.principalFactory(stored.impersonator.payload) : null;
+
+        const auth: InternalAuth<TPayload, TPrincipal> = {
+            sessionId,
+            session: stored,
+            principal,
+            actor,
+            isAuthenticated: !pending,
+            state,
+            csrfToken: stored.csrfToken ?? null,
+            transport,
+        };
+        this.countResolution(guest ? "guest" : pending ? "pending" : "authenticated");
+        this.emit(ctx, "resolved", {
+            sessionId,
+            principal,
+            reason: superseded ? "rotation_grace" : guest ? "guest" : pending ? "pending" : "active",
+        });
+
+        // rolling renewal + activity tracking (avoid touching too frequently)
+        if (!superseded && !pending) {
+            const renewBeforeSeconds = defaultRenewBeforeSeconds(this.opts);
+            await this.maybeTouch(ctx, sessionId, renewBeforeSeconds, this.opts.session.ttlSeconds, auth);
+        }
 
-    constructor(private readonly opts: SessionKitOptions<TPayload, TPrincipal>) {
-        this.cookieName = defaultCookieName(opts);
-        this.lockProvider = opts.lockProvider ?? new NoopLockProvider();
+        return auth;
     }
 
     /**
-     * Creates middleware that resolves session state and stores auth context.
+     * Creates and saves the session behind {@link signIn}. `authenticatedAt` defaults to now;
+     * sessions minted from a remember-me series keep the original sign-in time.
      */
-    middleware(): HttpMiddleware {
-        return async (ctx, next) => {
-            try {
-                const auth = await this.buildAuthContext(ctx);
-                ctx.setAuth<InternalAuth<TPayload, TPrincipal>>(auth);
-                await next();
-            } catch (error) {
-                throw toSessionKitError(error);
+    private async startSession(
+        ctx: HttpContext,
+        payload: TPayload,
+        options: SignInOptions | undefined,
+        authenticatedAt?: number
+    ): Promise<SessionWrite<TPayload, TPrincipal> & { sessionId: string }> {
+        const state = options?.state ?? "authenticated";
+        const pending = state !== "authenticated";
+        const createdAt = nowMs();
+        const defaultTtl = pending
+            ? (this.opts.session.pendingTtlSeconds ?? DEFAULT_PENDING_TTL_SECONDS)
+            : this.opts.session.ttlSeconds;
+        const ttl = this.capTtl({ createdAt }, options?.ttlSeconds ?? defaultTtl, createdAt);
+        const expiresAt = createdAt + secondsToMs(ttl);
+        const sessionId = this.sessionIds.generate();
+        // pending sessions are owner-indexed (and counted against maxPerOwner) once upgraded
+        const ownerKey = pending ? undefined : this.opts.ownerKey?.(payload);
+        const fingerprint = this.opts.fingerprint ? computeFingerprint(ctx, this.opts.fingerprint) : undefined;
+        const session: Stored<TPayload, TPrincipal> = {
+            payload,
+            createdAt,
+            expiresAt,
+            lastSeenAt: createdAt,
+            version: 1,
+            ...(pending
+                ? { state }
+                : { authenticatedAt: authenticatedAt ?? createdAt, authLevel: options?.authLevel ?? DEFAULT_AUTH_LEVEL }),
+            ...(options?.authMethod !== undefined ? { authMethod: options.authMethod } : {}),
+            ...(ownerKey !== undefined ? { ownerKey } : {}),
+            ...(fingerprint !== undefined ? { fingerprint } : {}),
+        };
+
+        await this.reportEvicted(ctx, await this.createSession(ctx, sessionId, session, ttl));
+        return { sessionId, session, ttlSeconds: ttl };
+    }
+
+    /**
+     * Resolves a request that has no usable session: a valid remember-me cookie silently signs the
+     * client back in under a new session, otherwise the request stays anonymous.
+     */
+    private async resolveWithoutSession(
+        ctx: HttpContext,
+        transport: SessionTransport,
+        outcome: ResolutionOutcome
+    ): Promise<InternalAuth<TPayload, TPrincipal>> {
+        // the new session ID only reaches cookie clients
+        const remembered = transport.issuesOnResponse ? await this.resumeRememberMe(ctx, transport) : null;
+        if (remembered) {
+            this.countResolution("remembered");
+            return remembered;
+        }
+        this.countResolution(outcome);
+        return unauthContext();
+    }
+
+    private async resumeRememberMe(
+        ctx: HttpContext,
+        transport: SessionTransport
+    ): Promise<InternalAuth<TPayload, TPrincipal> | null> {
+        const rememberMe = this.rememberMe;
+        if (!rememberMe) return null;
+
+        let result: RememberMeResult<TPayload>;
+        let session: Stored<TPayload, TPrincipal> | null = null;
+        try {
+            result = await rememberMe.resume(ctx, async (series) => {
+                const payload = this.rememberedPayload(series.payload);
+                const started = await this.startSession(
+                    ctx,
+                    payload,
+                    { authMethod: REMEMBER_ME_AUTH_METHOD },
+                    series.createdAt
+                );
+                const expiresAt = started.session.expiresAt;
+                const principal = this.opts.principalFactory(payload);
+                this.emit(ctx, "created", { sessionId: started.sessionId, principal, reason: "remember_me", expiresAt });
+                // stores that hash IDs at rest get the hash recorded, never the usable ID
+                const hashId = this.opts.store.hashId?.bind(this.opts.store);
+                const remembered: RememberedSession = hashId
+                    ? { key: hashId(started.sessionId), hashed: true, expiresAt }
+                    : { key: started.sessionId, expiresAt };
+                return { sessionId: started.sessionId, remembered };
+            });
+            if (result.status === "resumed") {
+                // a concurrent request may have minted it
+                session = await this.storeFor(ctx).get(result.sessionId);
+            }
+        } catch (e) {
+            this.opts.logger?.warn("Failed to resume remembered login.", { error: e });
+            return null;
+        }
+        if (result.status === "reused") {
+            await this.revokeRemembered(ctx, result);
+            if (this.opts.hooks?.onInvalidSession) {
+                await this.opts.hooks.onInvalidSession(ctx, "REMEMBER_ME_REUSED");
             }
+            return null;
+        }
+        const ttlSeconds = session ? Math.ceil((session.expiresAt - nowMs()) / 1000) : 0;
+        if (result.status === "absent" || !session || ttlSeconds <= 0) {
+            return null;
+        }
+
+        transport.issue(ctx, result.sessionId, ttlSeconds);
+        return {
+            sessionId: result.sessionId,
+            session,
+            principal: this.opts.principalFactory(session.payload),
+            actor: null,
+            isAuthenticated: true,
+            state: "authenticated",
+            csrfToken: session.csrfToken ?? null,
+            transport,
         };
     }
 
     /**
-     * Alias of {@link middleware}. Useful for readability in route composition.
+     * Payload snapshot of a remember-me series, migrated like stored sessions.
      */
-    optionalAuth(): HttpMiddleware {
-        return this.middleware();
+    private rememberedPayload(payload: TPayload): TPayload {
+        return this.opts.payloadTransformer ? this.opts.payloadTransformer(payload as unknown) : payload;
     }
 
     /**
-     * Creates middleware that requires an authenticated session.
+     * Revokes the sessions minted from a series whose token was reused. An owner-indexed series
+     * takes all of the owner's sessions with it, since the thief's session may have been rotated
+     * to an ID the series does not know. Sessions recorded by hashed ID are deleted through
+     * `delByHash` and, like `revokeAllFor`'s deletions, emit no event.
      */
-    requireAuth(options?: RequireAuthOptions): HttpMiddleware {
-        return async (ctx, next) => {
-            const auth = this.getAuth(ctx);
-            if (!auth.isAuthenticated) {
-                if (options?.onFail) {
-                    await options.onFail(ctx);
-                    return;
-                }
-                if (this.opts.hooks?.onUnauthorized) {
-                    await this.opts.hooks.onUnauthorized(ctx);
-                    return;
+    private async revokeRemembered(
+        ctx: HttpContext,
+        result: Extract<RememberMeResult<TPayload>, { status: "reused" }>
+    ): Promise<void> {
+        try {
+            const principal = this.opts.principalFactory(this.rememberedPayload(result.payload));
+            for (const remembered of result.sessions) {
+                if (remembered.hashed) {
+                    await this.deleteListed(remembered.key);
+                    continue;
                 }
-                throw new SessionKitError("UNAUTHORIZED", "Authentication required.");
+                await this.storeFor(ctx).del(remembered.key);
+                this.emit(ctx, "revoked", { sessionId: remembered.key, principal, reason: "remember_me_reused" });
             }
-            await next();
-        };
+            if (result.ownerKey !== undefined) {
+                await this.opts.store.deleteByOwner?.(result.ownerKey);
+            }
+        } catch (e) {
+            this.opts.logger?.warn("Failed to revoke sessions of a reused remember-me series.", {
+                seriesId: result.seriesId,
+                error: e,
+            });
+        }
     }
 
     /**
-     * Creates a new session, sets cookie, and optionally hydrates request auth context.
+     * Saves a new session, enforcing `session.maxPerOwner` under a per-owner lock so concurrent
+     * sign-ins cannot overshoot the limit. Returns the sessions evicted to make room.
      */
-    async signIn(
+    private async createSession(
         ctx: HttpContext,
-        payload: TPayload,
-        options?: SignInOptions
-    ): Promise<SignInResult<TPrincipal>> {
-        const ttl = options?.ttlSeconds ?? this.opts.session.ttlSeconds;
-        const createdAt = nowMs();
-        const expiresAt = createdAt + secondsToMs(ttl);
-        const sessionId = newSessionId();
+        sessionId: string,
+        session: Stored<TPayload, TPrincipal>,
+        ttlSeconds: number
+    ): Promise<OwnedSession<TPayload>[]> {
+        const store = this.storeFor(ctx);
+        const maxPerOwner = this.opts.session.maxPerOwner;
+        const ownerKey = session.ownerKey;
 
-        try {
-            await this.opts.store.set(
-                sessionId,
-                { payload, createdAt, expiresAt },
-                ttl
-            );
-        } catch (error) {
-            throw new SessionKitError("STORE_UNAVAILABLE", "Failed to save session.", error);
+        // impersonation sessions are indexed under the actor but never count against the cap
+        if (maxPerOwner === undefined || ownerKey === undefined || session.impersonator) {
+            try {
+                await store.set(sessionId, session, ttlSeconds);
+            } catch (error) {
+                throw new SessionKitError("STORE_UNAVAILABLE", "Failed to save session.", error);
+            }
+            return [];
+        }
+
+        const listByOwner = store.listByOwner?.bind(store);
+        if (!listByOwner) {
+            throw new SessionKitError("INTERNAL_ERROR", "Session store does not support owner indexing.");
         }
 
-        const maxAgeSeconds = this.opts.cookie?.maxAgeSeconds ?? ttl;
-        ctx.setCookie(this.cookieName, sessionId, { ...(this.opts.cookie ?? {}), maxAgeSeconds });
+        return this.lockProvider.withLock(`sessionkit:owner:${ownerKey}`, OWNER_LOCK_TTL_SECONDS, async () => {
+            let active: OwnedSession<TPayload>[];
+            try {
+                // superseded IDs in their rotation grace window do not count against the limit
+                active = (await listByOwner(ownerKey)).filter(
+                    ({ session: s }) => s.rotatedTo === undefined && s.impersonator === undefined
+                );
+            } catch (error) {
+                throw isSessionKitError(error)
+                    ? error
+                    : new SessionKitError("STORE_UNAVAILABLE", "Failed to list sessions.", error);
+            }
 
-        const principal = this.opts.principalFactory(payload);
+            let evicted: OwnedSession<TPayload>[] = [];
+            const overflow = active.length - maxPerOwner + 1;
+            if (overflow > 0) {
+                const policy = this.opts.session.maxPerOwnerPolicy ?? "evict-oldest";
+                if (policy === "reject") {
+                    throw new SessionKitError("SESSION_LIMIT_REACHED", "Maximum number of sessions reached.", undefined, {
+                        ownerKey,
+                        maxPerOwner,
+                    });
+                }
 
-        if (options?.hydrateContext ?? true) {
-            ctx.setAuth<InternalAuth<TPayload, TPrincipal>>({
-                sessionId,
-                session: { payload, createdAt, expiresAt },
-                principal,
-                isAuthenticated: true,
-            });
-        }
+                const rank = (entry: OwnedSession<TPayload>): number =>
+                    policy === "evict-lru" ? (entry.session.lastSeenAt ?? entry.session.createdAt) : entry.session.createdAt;
+                evicted = [...active].sort((a, b) => rank(a) - rank(b)).slice(0, overflow);
+            }
+
+            try {
+                for (const { sessionId: evictedId } of evicted) {
+                    await this.deleteListed(evictedId);
+                }
+                await store.set(sessionId, session, ttlSeconds);
+            } catch (error) {
+                throw new SessionKitError("STORE_UNAVAILABLE", "Failed to save session.", error);
+            }
+            return evicted;
+        });
+    }
 
-        return { sessionId, principal, expiresAt };
+    private absoluteDeadline(stored: Pick<Stored<TPayload, TPrincipal>, "createdAt" | "impersonator">): number {
+        const absoluteTtlSeconds = this.opts.session.absoluteTtlSeconds;
+        const deadline = absoluteTtlSeconds === undefined ? Infinity : stored.createdAt + secondsToMs(absoluteTtlSeconds);
+        return Math.min(deadline, stored.impersonator?.endsAt ?? Infinity);
     }
 
     /**
-     * Deletes session data and clears the session cookie.
+     * Clamps a TTL so the session cannot outlive `session.absoluteTtlSeconds` or its impersonation cap.
      */
-    async signOut(ctx: HttpContext, options?: SignOutOptions): Promise<void> {
-        const alwaysClear = options?.alwaysClearCookie ?? true;
-        const sid = ctx.getCookie(this.cookieName);
+    private capTtl(
+        stored: Pick<Stored<TPayload, TPrincipal>, "createdAt" | "impersonator">,
+        ttlSeconds: number,
+        now: number
+    ): number {
+        const deadline = this.absoluteDeadline(stored);
+        if (deadline === Infinity) {
+            return ttlSeconds;
+        }
+        return Math.min(ttlSeconds, Math.ceil((deadline - now) / 1000));
+    }
 
-        try {
-            if (sid) {
-                await this.opts.store.del(sid);
-            }
-        } catch (e) {
-            this.opts.logger?.warn("Failed to delete session from store.", { error: e });
-            if (!alwaysClear) {
-                throw new SessionKitError("STORE_UNAVAILABLE", "Failed to delete session.", e);
-            }
+    private async ensureCsrfToken(ctx: HttpContext, auth: InternalAuth<TPayload, TPrincipal>): Promise<string> {
+        const session = auth.session!;
+        if (session.csrfToken) {
+            return session.csrfToken;
         }
 
-        ctx.clearCookie(this.cookieName, this.opts.cookie ?? {});
-        ctx.setAuth<InternalAuth<TPayload, TPrincipal>>({
-            sessionId: null,
-            session: null,
-            principal: null,
-            isAuthenticated: false,
+        // a concurrent request may have issued a token in the meantime; keep theirs
+        const next = await this.saveSession(ctx, auth.sessionId!, session, (latest) => ({
+            ...latest,
+            csrfToken: latest.csrfToken ?? randomToken(),
+        }));
+        const csrfToken = next.csrfToken!;
+
+        ctx.setAuth<InternalAuth<TPayload, TPrincipal>>({ ...auth, session: next, csrfToken });
+        return csrfToken;
+    }
+
+    /**
+     * Rewrites an existing session through {@link commitSession}, keeping its current expiry.
+     */
+    private async saveSession(
+        ctx: HttpContext,
+        sessionId: string,
+        session: Stored<TPayload, TPrincipal>,
+        update: (latest: Stored<TPayload, TPrincipal>) => Stored<TPayload, TPrincipal> | Promise<Stored<TPayload, TPrincipal>>
+    ): Promise<Stored<TPayload, TPrincipal>> {
+        const written = await this.commitSession(ctx, sessionId, session, async (latest) => {
+            const next = await update(latest);
+            return { session: next, ttlSeconds: Math.ceil((next.expiresAt - nowMs()) / 1000) };
         });
+        return written.session;
     }
 
     /**
-     * Returns auth context attached to the request, or an unauthenticated default value.
+     * Writes `change(session)` with a bumped `version`. When the store supports `compareAndSet`,
+     * a write that lost a race re-reads the session and re-applies `change` to the latest copy,
+     * failing with SESSION_CONFLICT after {@link SESSION_WRITE_ATTEMPTS} attempts. A session that
+     * was deleted meanwhile fails with UNAUTHORIZED instead.
      */
-    getAuth(ctx: HttpContext): AuthContext<TPayload, TPrincipal> {
-        const found = ctx.getAuth<InternalAuth<TPayload, TPrincipal>>();
-        if (found) return stripInternal(found);
+    private async commitSession(
+        ctx: HttpContext,
+        sessionId: string,
+        session: Stored<TPayload, TPrincipal>,
+        change: (
+            latest: Stored<TPayload, TPrincipal>
+        ) => SessionWrite<TPayload, TPrincipal> | Promise<SessionWrite<TPayload, TPrincipal>>
+    ): Promise<SessionWrite<TPayload, TPrincipal>> {
+        const store = this.storeFor(ctx);
+        let latest = session;
 
-        return {
-            sessionId: null,
-            session: null,
-            principal: null,
-            isAuthenticated: false,
-        };
-    }
+        for (let attempt = 1; ; attempt++) {
+            const write = await change(latest);
+            const expectedVersion = latest.version ?? 0;
+            const next = { ...write.session, version: expectedVersion + 1 };
+            const ttlSeconds = Math.max(1, write.ttlSeconds);
 
-    private async buildAuthContext(ctx: HttpContext): Promise<InternalAuth<TPayload, TPrincipal>> {
-        const sid = ctx.getCookie(this.cookieName);
-        if (!sid) {
-            return unauthContext();
-        }
+            let current: Stored<TPayload, TPrincipal> | null = null;
+            try {
+                if (!store.compareAndSet) {
+                    await store.set(sessionId, next, ttlSeconds);
+                    return { session: next, ttlSeconds };
+                }
+                if (await store.compareAndSet(sessionId, expectedVersion, next, ttlSeconds)) {
+                    return { session: next, ttlSeconds };
+                }
+                current = await store.get(sessionId);
+            } catch (error) {
+                throw new SessionKitError("STORE_UNAVAILABLE", "Failed to save session.", error);
+            }
 
-        let stored: NonNullable<InternalAuth<TPayload, TPrincipal>["session"]> | null;
-        try {
-            stored = await this.opts.store.get(sid);
-        } catch (error) {
-            throw new SessionKitError("STORE_UNAVAILABLE", "Failed to read session.", error);
-        }
-        if (!stored) {
-            this.opts.logger?.debug("Session not found.", { sessionId: sid });
-            ctx.clearCookie(this.cookieName, this.opts.cookie ?? {});
-            if (this.opts.hooks?.onInvalidSession) {
-                await this.opts.hooks.onInvalidSession(ctx, "SESSION_NOT_FOUND");
+            if (!current) {
+                throw new SessionKitError("UNAUTHORIZED", "Session no longer exists.", undefined, { sessionId });
             }
-            return unauthContext();
+            if (attempt >= SESSION_WRITE_ATTEMPTS) {
+                throw new SessionKitError("SESSION_CONFLICT", "Session was modified by a concurrent request.", undefined, {
+                    sessionId,
+                    attempts: attempt,
+                });
+            }
+            this.opts.logger?.debug("Session write conflict, retrying.", { sessionId, attempt });
+            latest = current;
         }
+    }
 
-        // Optional payload migration
-        try {
-            if (this.opts.payloadTransformer) {
-                // allow transforming payload only (not createdAt/expiresAt)
-                const transformed = this.opts.payloadTransformer(stored.payload as unknown);
-                stored = { ...stored, payload: transformed };
+    private isRotationDue(stored: Stored<TPayload, TPrincipal>): boolean {
+        const everySeconds = this.opts.session.rotateEverySeconds;
+        if (!everySeconds) {
+            return false;
+        }
+        return nowMs() - (stored.rotatedAt ?? stored.createdAt) >= secondsToMs(everySeconds);
+    }
+
+    /**
+     * Rotates a session whose rotation is due, under a per-session lock. A request that finds the
+     * session already rotated adopts the successor instead of minting another ID; `null` when
+     * neither the session nor its successor exists anymore.
+     */
+    private async rotatePeriodically(
+        ctx: HttpContext,
+        transport: SessionTransport,
+        sessionId: string,
+        graceSeconds: number
+    ): Promise<RotatedSession<TPayload, TPrincipal> | null> {
+        return this.lockProvider.withLock(this.sessionLockKey("rotate", sessionId), ROTATION_LOCK_TTL_SECONDS, async () => {
+            let latest;
+            try {
+                latest = await this.storeFor(ctx).get(sessionId);
+            } catch (storeError) {
+                throw new SessionKitError("STORE_UNAVAILABLE", "Failed to read session.", storeError);
             }
-        } catch (e) {
-            this.opts.logger?.warn("Invalid session payload.", { error: e });
-            ctx.clearCookie(this.cookieName, this.opts.cookie ?? {});
-            if (this.opts.hooks?.onInvalidSession) {
-                await this.opts.hooks.onInvalidSession(ctx, "INVALID_PAYLOAD");
+            if (!latest) {
+                return null;
             }
-            return unauthContext();
-        }
+            if (latest.rotatedTo !== undefined) {
+                return this.adoptSuccessor(ctx, transport, latest.rotatedTo);
+            }
+            return this.rotateSession(ctx, transport, sessionId, latest, graceSeconds);
+        });
+    }
 
-        if (nowMs() >= stored.expiresAt) {
-            this.opts.logger?.debug("Session expired.", { sessionId: sid });
-            ctx.clearCookie(this.cookieName, this.opts.cookie ?? {});
-            return unauthContext();
+    /**
+     * Switches the request to the session a concurrent rotation replaced it with.
+     */
+    private async adoptSuccessor(
+        ctx: HttpContext,
+        transport: SessionTransport,
+        successorId: string
+    ): Promise<RotatedSession<TPayload, TPrincipal> | null> {
+        let session;
+        try {
+            session = await this.storeFor(ctx).get(successorId);
+        } catch (storeError) {
+            throw new SessionKitError("STORE_UNAVAILABLE", "Failed to read session.", storeError);
+        }
+        if (!session) {
+            return null;
         }
+        transport.issue(ctx, successorId, Math.ceil((session.expiresAt - nowMs()) / 1000));
+        return { sessionId: successorId, session, adopted: true };
+    }
 
-        stored = await this.maybeRefreshTokenSession(ctx, sid, stored);
-        if (!stored) {
-            return unauthContext();
+    /**
+     * Moves a session to a new ID. The superseded record is written with `compareAndSet` when the
+     * store supports it, so of two concurrent rotations only one succeeds; the other discards its
+     * new ID and adopts the winner's.
+     */
+    private async rotateSession(
+        ctx: HttpContext,
+        transport: SessionTransport,
+        sessionId: string,
+        stored: Stored<TPayload, TPrincipal>,
+        graceSeconds: number
+    ): Promise<RotatedSession<TPayload, TPrincipal>> {
+        const now = nowMs();
+        const ttlSeconds = Math.ceil((stored.expiresAt - now) / 1000);
+        if (ttlSeconds <= 0) {
+            throw new SessionKitError("SESSION_EXPIRED", "Session expired.");
         }
 
-        const principal = this.opts.principalFactory(stored.payload);
+        const nextId = this.sessionIds.generate();
+        const { rotatedTo: _superseded, ...rest } = stored;
+        const next: Stored<TPayload, TPrincipal> = { ...rest, rotatedAt: now, version: 1 };
 
-        const auth: InternalAuth<TPayload, TPrincipal> = {
-            sessionId: sid,
-            session: stored,
-            principal,
-            isAuthenticated: true,
-        };
+        const store = this.storeFor(ctx);
+        let winner: Stored<TPayload, TPrincipal> | null | undefined;
+        try {
+            await store.set(nextId, next, ttlSeconds);
+            await this.moveData(ctx, sessionId, nextId, ttlSeconds);
+            if (graceSeconds > 0) {
+                const graceTtl = Math.min(graceSeconds, ttlSeconds);
+                const expectedVersion = stored.version ?? 0;
+                const superseded: Stored<TPayload, TPrincipal> = {
+                    ...stored,
+                    rotatedTo: nextId,
+                    expiresAt: Math.min(stored.expiresAt, now + secondsToMs(graceTtl)),
+                    // in-flight writes to the old ID must not resurrect it
+                    version: expectedVersion + 1,
+                };
+                if (!store.compareAndSet) {
+                    await store.set(sessionId, superseded, graceTtl);
+                } else if (!(await store.compareAndSet(sessionId, expectedVersion, superseded, graceTtl))) {
+                    await store.del(nextId);
+                    winner = await store.get(sessionId);
+                }
+            } else {
+                await store.del(sessionId);
+            }
+        } catch (error) {
+            throw new SessionKitError("STORE_UNAVAILABLE", "Failed to rotate session.", error);
+        }
 
-        // rolling touch (avoid touching too frequently)
-        if (this.opts.session.rolling) {
-            const renewBeforeSeconds = defaultRenewBeforeSeconds(this.opts);
-            await this.maybeTouch(sid, renewBeforeSeconds, this.opts.session.ttlSeconds, auth);
+        if (winner !== undefined) {
+            const adopted = winner?.rotatedTo !== undefined ? await this.adoptSuccessor(ctx, transport, winner.rotatedTo) : null;
+            if (adopted) {
+                return adopted;
+            }
+            if (!winner) {
+                throw new SessionKitError("UNAUTHORIZED", "Session no longer exists.", undefined, { sessionId });
+            }
+            throw new SessionKitError("SESSION_CONFLICT", "Session was modified by a concurrent request.", undefined, {
+                sessionId,
+            });
         }
 
-        return auth;
+        transport.issue(ctx, nextId, ttlSeconds);
+        return { sessionId: nextId, session: next, adopted: false };
+    }
+
+    // lock keys must not reveal raw IDs when the store hashes them at rest
+    private sessionLockKey(scope: string, sessionId: string): string {
+        return `sessionkit:${scope}:${this.opts.store.hashId?.(sessionId) ?? sessionId}`;
     }
 
     private async maybeRefreshTokenSession(
         ctx: HttpContext,
+        transport: SessionTransport,
         sessionId: string,
-        stored: NonNullable<InternalAuth<TPayload, TPrincipal>["session"]>
-    ): Promise<NonNullable<InternalAuth<TPayload, TPrincipal>["session"]> | null> {
+        stored: Stored<TPayload, TPrincipal>
+    ): Promise<Stored<TPayload, TPrincipal> | null> {
         const token = this.opts.token;
         if (!token) {
             return stored;
@@ -244,12 +1737,12 @@ export class SessionKit<TPayload, TPrincipal> {
 
         try {
             return await this.lockProvider.withLock(
-                `sessionkit:refresh:${sessionId}`,
+                this.sessionLockKey("refresh", sessionId),
                 TOKEN_REFRESH_LOCK_TTL_SECONDS,
                 async () => {
                     let latest;
                     try {
-                        latest = await this.opts.store.get(sessionId);
+                        latest = await this.storeFor(ctx).get(sessionId);
                     } catch (storeError) {
                         throw new SessionKitError("STORE_UNAVAILABLE", "Failed to read session.", storeError);
                     }
@@ -257,7 +1750,7 @@ export class SessionKit<TPayload, TPrincipal> {
                         return null;
                     }
 
-                    if (nowMs() >= latest.expiresAt) {
+                    if (nowMs() >= Math.min(latest.expiresAt, this.absoluteDeadline(latest))) {
                         return null;
                     }
 
@@ -265,44 +1758,74 @@ export class SessionKit<TPayload, TPrincipal> {
                         return latest;
                     }
 
+                    const telemetry = this.opts.telemetry;
+                    const refresh = (payload: TPayload) =>
+                        telemetry ? telemetry.trace("sessionkit.token.refresh", () => token.refresh(payload)) : token.refresh(payload);
                     let refreshed;
                     try {
-                        refreshed = await token.refresh(latest.payload);
+                        refreshed = await refresh(latest.payload);
+                        telemetry?.increment("sessionkit.token.refreshes", { outcome: "success" });
                     } catch (refreshError) {
+                        telemetry?.increment("sessionkit.token.refreshes", { outcome: "failure" });
                         throw new SessionKitError("TOKEN_REFRESH_FAILED", "Failed to refresh token.", refreshError);
                     }
-                    const ttlSeconds = refreshed.ttlSeconds ?? this.opts.session.ttlSeconds;
-                    const nextStored = {
-                        ...latest,
-                        payload: refreshed.payload,
-                        expiresAt: nowMs() + secondsToMs(ttlSeconds),
-                    };
-
-                    try {
-                        await this.opts.store.set(sessionId, nextStored, ttlSeconds);
-                    } catch (storeError) {
-                        throw new SessionKitError("STORE_UNAVAILABLE", "Failed to save session.", storeError);
-                    }
-                    return nextStored;
+                    // the token is refreshed once; a write conflict re-applies the refreshed payload
+                    const written = await this.commitSession(ctx, sessionId, latest, (current) => {
+                        const now = nowMs();
+                        const ttlSeconds = this.capTtl(
+                            current,
+                            refreshed.ttlSeconds ?? this.opts.session.ttlSeconds,
+                            now
+                        );
+                        return {
+                            session: {
+                                ...current,
+                                payload: refreshed.payload,
+                                expiresAt: Math.min(now + secondsToMs(ttlSeconds), this.absoluteDeadline(current)),
+                            },
+                            ttlSeconds,
+                        };
+                    });
+                    this.emit(ctx, "refreshed", {
+                        sessionId,
+                        principal: this.principalOf(written.session),
+                        reason: "token_refresh",
+                        expiresAt: written.session.expiresAt,
+                    });
+                    return written.session;
                 }
             );
         } catch (error) {
             const normalized = toSessionKitError(error);
-            if (normalized.code !== "TOKEN_REFRESH_FAILED") {
+            if (normalized.code === "UNAUTHORIZED") {
+                // deleted by a concurrent request, e.g. signOut, while the token was refreshed
+                return null;
+            }
+            // a refreshed token that could not be saved is lost: handled like a failed refresh
+            if (normalized.code !== "TOKEN_REFRESH_FAILED" && normalized.code !== "SESSION_CONFLICT") {
                 throw normalized;
             }
 
-            await this.handleRefreshFailure(ctx, sessionId, normalized);
+            await this.handleRefreshFailure(ctx, transport, sessionId, this.principalOf(stored), normalized);
             return null;
         }
     }
 
-    private async handleRefreshFailure(ctx: HttpContext, sessionId: string, error: unknown): Promise<void> {
+    private async handleRefreshFailure(
+        ctx: HttpContext,
+        transport: SessionTransport,
+        sessionId: string,
+        principal: TPrincipal | null,
+        error: unknown
+    ): Promise<void> {
         this.opts.logger?.warn("Token refresh failed.", { sessionId, error });
 
-        if ((this.opts.token?.onRefreshFail ?? "unauth") === "revoke") {
+        const policy = this.opts.token?.onRefreshFail ?? "unauth";
+        this.emit(ctx, "refreshFailed", { sessionId, principal, reason: policy, error });
+        if (policy === "revoke") {
             try {
-                await this.opts.store.del(sessionId);
+                await this.storeFor(ctx).del(sessionId);
+                this.emit(ctx, "revoked", { sessionId, principal, reason: "refresh_failed" });
             } catch (storeError) {
                 this.opts.logger?.warn("Failed to revoke session after refresh failure.", {
                     sessionId,
@@ -315,37 +1838,67 @@ export class SessionKit<TPayload, TPrincipal> {
             await this.opts.hooks.onInvalidSession(ctx, "TOKEN_REFRESH_FAILED");
         }
 
-        ctx.clearCookie(this.cookieName, this.opts.cookie ?? {});
+        transport.clear(ctx);
     }
 
     private async maybeTouch(
+        ctx: HttpContext,
         sessionId: string,
         renewBeforeSeconds: number,
         ttlSeconds: number,
         auth: InternalAuth<TPayload, TPrincipal>
     ): Promise<void> {
+        const s = auth.session;
+        if (!s) {
+            return;
+        }
+
         const now = nowMs();
-        const expiresAt = auth.session?.expiresAt ?? 0;
+        const expiresAt = s.expiresAt;
         const remainingSeconds = Math.floor((expiresAt - now) / 1000);
-        if (remainingSeconds > renewBeforeSeconds) {
+
+        // never extend past the absolute lifetime cap
+        const cappedTtl = this.capTtl(s, ttlSeconds, now);
+        const renewedExpiresAt = Math.min(now + secondsToMs(cappedTtl), this.absoluteDeadline(s));
+        const renewDue =
+            !!this.opts.session.rolling && remainingSeconds <= renewBeforeSeconds && renewedExpiresAt > expiresAt;
+        const activityDue =
+            tracksActivity(this.opts) &&
+            now - (s.lastSeenAt ?? s.createdAt) >= secondsToMs(defaultTouchEverySeconds(this.opts));
+        if (!renewDue && !activityDue) {
             return;
         }
 
+        // an activity-only touch keeps the current expiry
+        const nextExpiresAt = renewDue ? renewedExpiresAt : expiresAt;
+        const nextTtl = renewDue ? cappedTtl : Math.ceil((expiresAt - now) / 1000);
+        if (nextTtl <= 0) {
+            return;
+        }
+
+        const store = this.storeFor(ctx);
         try {
-            if (this.opts.store.touch) {
-                await this.opts.store.touch(sessionId, ttlSeconds);
-                if (auth.session) {
-                    auth.session = { ...auth.session, expiresAt: now + secondsToMs(ttlSeconds) };
-                }
+            if (store.touch && !store.compareAndSet) {
+                await store.touch(sessionId, nextTtl);
+                auth.session = { ...s, expiresAt: nextExpiresAt, lastSeenAt: now };
             } else {
-                const s = auth.session!;
-                await this.opts.store.set(
-                    sessionId,
-                    { ...s, expiresAt: now + secondsToMs(ttlSeconds) },
-                    ttlSeconds
-                );
-                auth.session = { ...s, expiresAt: now + secondsToMs(ttlSeconds) };
+                // never shorten an expiry a concurrent request has just extended
+                const written = await this.commitSession(ctx, sessionId, s, (latest) => {
+                    const latestExpiresAt = Math.max(latest.expiresAt, nextExpiresAt);
+                    return {
+                        session: { ...latest, expiresAt: latestExpiresAt, lastSeenAt: now },
+                        ttlSeconds: Math.ceil((latestExpiresAt - now) / 1000),
+                    };
+                });
+                auth.session = written.session;
             }
+            this.opts.telemetry?.increment("sessionkit.touches", { reason: renewDue ? "renewal" : "activity" });
+            this.emit(ctx, "touched", {
+                sessionId,
+                principal: auth.principal,
+                reason: renewDue ? "renewal" : "activity",
+                expiresAt: auth.session.expiresAt,
+            });
         } catch (e) {
             this.opts.logger?.warn("Failed to touch session TTL.", { error: e });
         }
@@ -357,17 +1910,27 @@ function unauthContext<TPayload, TPrincipal>(): InternalAuth<TPayload, TPrincipa
         sessionId: null,
         session: null,
         principal: null,
+        actor: null,
         isAuthenticated: false,
+        state: null,
+        csrfToken: null,
     };
 }
 
+function guestDataOf<TGuest>(session: StoredSession<unknown>): TGuest {
+    return session.guest as TGuest;
+}
+
 function stripInternal<TPayload, TPrincipal>(
     v: InternalAuth<TPayload, TPrincipal>
 ): AuthContext<TPayload, TPrincipal> {
     return {
         sessionId: v.sessionId,
-        session: v.session,
+        session: v.state === GUEST_STATE ? null : v.session,
         principal: v.principal,
+        actor: v.actor,
         isAuthenticated: v.isAuthenticated,
+        state: v.state,
+        csrfToken: v.csrfToken,
     };
 }
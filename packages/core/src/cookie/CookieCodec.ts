@@ -1,3 +1,5 @@
+import { type CookieSigningOptions, signCookieValue, unsignCookieValue } from "./CookieSigner";
+
 /**
  * Cookie configuration shared by SessionKit core and adapters.
  */
@@ -9,6 +11,7 @@ export type CookieOptions = {
     secure?: boolean; // default configurable
     sameSite?: "lax" | "strict" | "none"; // default "lax"
     maxAgeSeconds?: number; // optional override
+    signing?: CookieSigningOptions; // optional HMAC signing of the cookie value
 };
 
 function isTokenChar(ch: string): boolean {
@@ -18,8 +21,13 @@ function isTokenChar(ch: string): boolean {
 
 /**
  * Parses a raw Cookie header into a key/value map.
+ * When `options.signing` is given, the cookies listed in `options.signed` are verified
+ * and dropped from the result if their signature is missing or invalid.
  */
-export function parseCookieHeader(cookieHeader: string | null | undefined): Record<string, string> {
+export function parseCookieHeader(
+    cookieHeader: string | null | undefined,
+    options?: { signing: CookieSigningOptions; signed: string[] }
+): Record<string, string> {
     const out: Record<string, string> = {};
     if (!cookieHeader) return out;
 
@@ -30,11 +38,18 @@ export function parseCookieHeader(cookieHeader: string | null | undefined): Reco
         const rawKey = p.slice(0, idx).trim();
         const rawVal = p.slice(idx + 1).trim();
         if (!rawKey) continue;
+        let value: string;
         try {
-            out[rawKey] = decodeURIComponent(rawVal);
+            value = decodeURIComponent(rawVal);
         } catch {
-            out[rawKey] = rawVal;
+            value = rawVal;
+        }
+        if (options?.signed.includes(rawKey)) {
+            const verified = unsignCookieValue(value, options.signing);
+            if (verified === null) continue;
+            value = verified;
         }
+        out[rawKey] = value;
     }
     return out;
 }
@@ -52,7 +67,8 @@ export function serializeSetCookie(
         if (!isTokenChar(ch)) throw new Error(`Invalid cookie name: ${name}`);
     }
 
-    const encValue = encodeURIComponent(value);
+    const signed = options.signing && value !== "" ? signCookieValue(value, options.signing) : value;
+    const encValue = encodeURIComponent(signed);
     const segments: string[] = [`${name}=${encValue}`];
 
     const path = options.path ?? "/";
@@ -0,0 +1,44 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * HMAC key ring used to sign cookie values.
+ * The first secret is the active signing key; the rest are verify-only keys kept for rotation.
+ */
+export type CookieSigningOptions = {
+    secrets: string[];
+};
+
+function hmac(value: string, secret: string): Buffer {
+    return createHmac("sha256", secret).update(value).digest();
+}
+
+/**
+ * Appends an HMAC signature (`<value>.<base64url signature>`) using the active key.
+ */
+export function signCookieValue(value: string, signing: CookieSigningOptions): string {
+    const secret = signing.secrets[0];
+    if (!secret) {
+        throw new Error("Cookie signing requires at least one secret.");
+    }
+    return `${value}.${hmac(value, secret).toString("base64url")}`;
+}
+
+/**
+ * Verifies a signed cookie value against every key in the ring.
+ * Returns the original value, or `null` when the signature is missing or invalid.
+ */
+export function unsignCookieValue(signed: string, signing: CookieSigningOptions): string | null {
+    const idx = signed.lastIndexOf(".");
+    if (idx <= 0) return null;
+
+    const value = signed.slice(0, idx);
+    const signature = Buffer.from(signed.slice(idx + 1), "base64url");
+
+    for (const secret of signing.secrets) {
+        const expected = hmac(value, secret);
+        if (expected.length === signature.length && timingSafeEqual(expected, signature)) {
+            return value;
+        }
+    }
+    return null;
+}
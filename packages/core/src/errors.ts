@@ -3,9 +3,14 @@
  */
 export type ErrorCode =
     | "UNAUTHORIZED"
+    | "FORBIDDEN"
     | "INVALID_SESSION"
     | "SESSION_EXPIRED"
+    | "REAUTH_REQUIRED"
     | "TOKEN_REFRESH_FAILED"
+    | "CSRF_REJECTED"
+    | "SESSION_LIMIT_REACHED"
+    | "SESSION_CONFLICT"
     | "LOCK_TIMEOUT"
     | "STORE_UNAVAILABLE"
     | "INTERNAL_ERROR";
@@ -85,8 +90,15 @@ export function statusFromErrorCode(code: ErrorCode): number {
         case "UNAUTHORIZED":
         case "INVALID_SESSION":
         case "SESSION_EXPIRED":
+        case "REAUTH_REQUIRED":
         case "TOKEN_REFRESH_FAILED":
             return 401;
+        case "FORBIDDEN":
+        case "CSRF_REJECTED":
+            return 403;
+        case "SESSION_LIMIT_REACHED":
+        case "SESSION_CONFLICT":
+            return 409;
         case "STORE_UNAVAILABLE":
         case "LOCK_TIMEOUT":
             return 503;
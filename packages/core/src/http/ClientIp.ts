@@ -0,0 +1,48 @@
+/**
+ * Which `X-Forwarded-For` hops to trust when resolving the client IP:
+ * `false` ignores the header, `true` trusts every hop, a number trusts that many
+ * proxies in front of the app, and a list trusts those proxy addresses.
+ */
+export type TrustProxy = boolean | number | string[];
+
+function normalizeIp(ip: string): string {
+    const trimmed = ip.trim();
+    return trimmed.startsWith("::ffff:") && trimmed.includes(".") ? trimmed.slice(7) : trimmed;
+}
+
+/**
+ * Resolves the client IP from the socket address and `X-Forwarded-For` chain.
+ */
+export function resolveClientIp(
+    remoteAddress: string | null | undefined,
+    forwardedFor: string | null | undefined,
+    trustProxy: TrustProxy = false
+): string | null {
+    const remote = remoteAddress ? normalizeIp(remoteAddress) : null;
+    if (trustProxy === false || !forwardedFor) {
+        return remote;
+    }
+
+    // client, proxy1, proxy2, ..., socket peer
+    const chain = forwardedFor
+        .split(",")
+        .map(normalizeIp)
+        .filter((ip) => ip.length > 0);
+    if (remote) chain.push(remote);
+    if (chain.length === 0) return null;
+
+    if (trustProxy === true) {
+        return chain[0] ?? null;
+    }
+
+    if (typeof trustProxy === "number") {
+        return chain[Math.max(0, chain.length - 1 - trustProxy)] ?? null;
+    }
+
+    const trusted = new Set(trustProxy.map(normalizeIp));
+    let idx = chain.length - 1;
+    while (idx > 0 && trusted.has(chain[idx] as string)) {
+        idx -= 1;
+    }
+    return chain[idx] ?? null;
+}
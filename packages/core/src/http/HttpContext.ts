@@ -9,13 +9,27 @@ export interface HttpContext {
     setCookie(name: string, value: string, options: CookieOptions & { maxAgeSeconds?: number }): void;
     clearCookie(name: string, options: CookieOptions): void;
 
+    // Request access (read-only)
+    getMethod(): string;
+    getUrl(): string;
+    getPath(): string;
+    getHeader(name: string): string | null;
+    getClientIp(): string | null; // adapters apply their trusted-proxy policy
+    getUserAgent(): string | null;
+    getFormField?(name: string): Promise<string | null>; // urlencoded/multipart body field, when available
+
     // Auth context storage
     setAuth<T>(value: T): void;
     getAuth<T>(): T | null;
+    requestKey?(): object; // the same object for every context an adapter creates for this request
 
     // Response helpers (adapters should implement these)
+    setHeader(name: string, value: string): void;
     status(code: number): void;
     json(body: unknown): void;
+
+    // Runs `task` before the response is sent, for frameworks whose middleware cannot await the handler
+    beforeResponse?(task: () => Promise<void>): void;
 }
 
 /**
@@ -3,11 +3,27 @@ export * from "./errors";
 
 export * from "./http/HttpContext";
 export * from "./http/HttpMiddleware";
+export * from "./http/ClientIp";
 
 export * from "./store/SessionStore";
 export * from "./store/MapSessionStore";
+export * from "./store/HashedSessionStore";
+export * from "./store/CookieSessionStore";
+export * from "./store/JwtSessionStore";
+export type { JwtAlgorithm, JwtKey } from "./utils/jwt";
+export * from "./store/RememberMeStore";
+export * from "./store/MapRememberMeStore";
 
 export * from "./cookie/CookieCodec";
+export * from "./cookie/CookieSigner";
+export * from "./transport/SessionTransport";
 export * from "./session/LockProvider";
+export * from "./session/Fingerprint";
+export * from "./session/SessionIdGenerator";
+export * from "./session/SessionEvents";
+export * from "./session/RememberMe";
+export * from "./session/SessionData";
+export * from "./telemetry/SessionTelemetry";
+export * from "./telemetry/OpenTelemetry";
 
 export * from "./SessionKit";
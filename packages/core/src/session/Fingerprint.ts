@@ -0,0 +1,84 @@
+import { createHash } from "crypto";
+import type { HttpContext } from "../http/HttpContext";
+
+/**
+ * Client fingerprint binding captured at sign-in and compared on every request.
+ */
+export type FingerprintOptions = {
+    userAgent?: boolean; // default true
+    ipSubnet?: boolean; // default false
+    ipv4PrefixLength?: number; // default 24
+    ipv6PrefixLength?: number; // default 64
+    onMismatch?: "reject" | "revoke" | "log"; // default "reject"
+};
+
+function parseIpv4(ip: string): number[] | null {
+    const parts = ip.split(".");
+    if (parts.length !== 4) return null;
+    const bytes = parts.map((p) => (/^\d{1,3}$/.test(p) ? Number(p) : NaN));
+    return bytes.every((b) => b <= 255) ? bytes : null;
+}
+
+function parseIpv6(ip: string): number[] | null {
+    const halves = ip.split("%")[0]!.split("::");
+    if (halves.length > 2) return null;
+
+    const groups = halves.map((h) => (h === "" ? [] : h.split(":")));
+    const head = groups[0] ?? [];
+    const tail = groups[1] ?? [];
+    const missing = 8 - head.length - tail.length;
+    if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+    const words = [...head, ...Array<string>(Math.max(0, missing)).fill("0"), ...tail];
+    const bytes: number[] = [];
+    for (const word of words) {
+        if (!/^[0-9a-f]{1,4}$/i.test(word)) return null;
+        const value = parseInt(word, 16);
+        bytes.push(value >> 8, value & 0xff);
+    }
+    return bytes;
+}
+
+function maskBytes(bytes: number[], prefixLength: number): number[] {
+    return bytes.map((byte, i) => {
+        const bits = Math.min(8, Math.max(0, prefixLength - i * 8));
+        return byte & ((0xff << (8 - bits)) & 0xff);
+    });
+}
+
+/**
+ * Reduces an IP address to its network prefix, e.g. `203.0.113.42` -> `203.0.113.0/24`.
+ * Unparseable values are returned unchanged.
+ */
+export function ipSubnet(ip: string, ipv4PrefixLength = 24, ipv6PrefixLength = 64): string {
+    const v4 = parseIpv4(ip);
+    if (v4) {
+        return `${maskBytes(v4, ipv4PrefixLength).join(".")}/${ipv4PrefixLength}`;
+    }
+
+    const v6 = parseIpv6(ip);
+    if (v6) {
+        const masked = maskBytes(v6, ipv6PrefixLength);
+        const words: string[] = [];
+        for (let i = 0; i < masked.length; i += 2) {
+            words.push(((masked[i]! << 8) | masked[i + 1]!).toString(16));
+        }
+        return `${words.join(":")}/${ipv6PrefixLength}`;
+    }
+    return ip;
+}
+
+/**
+ * Hashes the configured request attributes into an opaque fingerprint.
+ */
+export function computeFingerprint(ctx: HttpContext, options: FingerprintOptions): string {
+    const parts: string[] = [];
+    if (options.userAgent ?? true) {
+        parts.push(`ua:${ctx.getUserAgent() ?? ""}`);
+    }
+    if (options.ipSubnet) {
+        const ip = ctx.getClientIp();
+        parts.push(`ip:${ip ? ipSubnet(ip, options.ipv4PrefixLength, options.ipv6PrefixLength) : ""}`);
+    }
+    return createHash("sha256").update(parts.join("\n")).digest("base64url");
+}
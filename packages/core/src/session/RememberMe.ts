@@ -0,0 +1,197 @@
+import { createHash } from "crypto";
+import type { HttpContext } from "../http/HttpContext";
+import type { CookieOptions } from "../cookie/CookieCodec";
+import type { Logger } from "../errors";
+import type { LockProvider } from "./LockProvider";
+import type { RememberedSession, RememberMeSeries, RememberMeStore } from "../store/RememberMeStore";
+import { nowMs, secondsToMs } from "../utils/time";
+import { randomToken, safeEqual } from "../utils/token";
+
+const DEFAULT_COOKIE_NAME = "remember";
+const DEFAULT_REUSE_GRACE_SECONDS = 30;
+const SERIES_LOCK_TTL_SECONDS = 10;
+
+/**
+ * Persistent login configured through `SessionKitOptions.rememberMe`.
+ */
+export type RememberMeOptions<TPayload> = {
+    store: RememberMeStore<TPayload>;
+    ttlSeconds: number; // lifetime of a series from sign-in, e.g. 30 days
+    cookie?: Omit<CookieOptions, "maxAgeSeconds" | "signing">; // name defaults to "remember"
+    reuseGraceSeconds?: number; // previous token still accepted after a rotation, default 30
+};
+
+/**
+ * Outcome of presenting a remember-me cookie. `"resumed"` names the session minted for it, or
+ * the one a concurrent request holding the same token already minted. `"reused"` means a token
+ * that was already rotated away was presented again: the series has been revoked, and the
+ * sessions minted from it must be revoked too.
+ */
+export type RememberMeResult<TPayload> =
+    | { status: "resumed"; seriesId: string; sessionId: string }
+    | { status: "reused"; seriesId: string; payload: TPayload; sessions: RememberedSession[]; ownerKey?: string }
+    | { status: "absent" };
+
+function hashToken(token: string): string {
+    return createHash("sha256").update(token).digest("base64url");
+}
+
+function remainingSeconds(series: RememberMeSeries<unknown>, now: number): number {
+    return Math.max(1, Math.ceil((series.expiresAt - now) / 1000));
+}
+
+/**
+ * Series/token persistent login. The cookie carries `<seriesId>.<token>`; every use swaps the
+ * token, so a stolen cookie and its owner cannot both keep using one series. When the previous
+ * token shows up after its short reuse grace (kept for concurrent requests), one of them is a
+ * thief: the whole series is revoked along with the sessions minted from it.
+ */
+export class RememberMe<TPayload> {
+    private readonly cookieName: string;
+    private readonly cookieOptions: Omit<CookieOptions, "name" | "maxAgeSeconds" | "signing">;
+
+    constructor(
+        private readonly options: RememberMeOptions<TPayload>,
+        private readonly lockProvider: LockProvider,
+        private readonly logger?: Logger
+    ) {
+        const { name, ...cookieOptions } = options.cookie ?? {};
+        this.cookieName = name ?? DEFAULT_COOKIE_NAME;
+        this.cookieOptions = cookieOptions;
+    }
+
+    /**
+     * Starts a series for `payload`, signed in at `authenticatedAt`, and sets the remember-me cookie.
+     */
+    async issue(ctx: HttpContext, payload: TPayload, authenticatedAt: number, ownerKey?: string): Promise<void> {
+        const now = nowMs();
+        const seriesId = randomToken(16);
+        const token = randomToken();
+        const series: RememberMeSeries<TPayload> = {
+            payload,
+            tokenHash: hashToken(token),
+            createdAt: authenticatedAt,
+            expiresAt: now + secondsToMs(this.options.ttlSeconds),
+            ...(ownerKey !== undefined ? { ownerKey } : {}),
+        };
+
+        await this.options.store.set(seriesId, series, this.options.ttlSeconds);
+        this.setCookie(ctx, seriesId, token, this.options.ttlSeconds);
+    }
+
+    /**
+     * Checks the request's remember-me cookie, rotates its token and mints a session from the
+     * series with `mint`. Runs under the series lock, so concurrent requests presenting one token
+     * share the session minted for it. Unusable cookies are cleared.
+     */
+    async resume(
+        ctx: HttpContext,
+        mint: (series: RememberMeSeries<TPayload>) => Promise<{ sessionId: string; remembered: RememberedSession }>
+    ): Promise<RememberMeResult<TPayload>> {
+        const credential = this.read(ctx);
+        if (!credential) {
+            return { status: "absent" };
+        }
+
+        const { seriesId, token } = credential;
+        const lockKey = `sessionkit:remember:${seriesId}`;
+        return this.lockProvider.withLock(lockKey, SERIES_LOCK_TTL_SECONDS, async () => {
+            const store = this.options.store;
+            const series = await store.get(seriesId);
+            const now = nowMs();
+            if (!series || now >= series.expiresAt) {
+                this.clearCookie(ctx);
+                return { status: "absent" };
+            }
+
+            const tokenHash = hashToken(token);
+            const live = (series.sessions ?? []).filter((session) => now < session.expiresAt);
+            const ttlSeconds = remainingSeconds(series, now);
+            if (safeEqual(tokenHash, series.tokenHash)) {
+                const minted = await mint(series);
+                const next = randomToken();
+                const rotated: RememberMeSeries<TPayload> = {
+                    ...series,
+                    tokenHash: hashToken(next),
+                    previousTokenHash: series.tokenHash,
+                    rotatedAt: now,
+                    sessions: [...live, minted.remembered],
+                };
+                await store.set(seriesId, rotated, ttlSeconds);
+                this.setCookie(ctx, seriesId, next, ttlSeconds);
+                return { status: "resumed", seriesId, sessionId: minted.sessionId };
+            }
+
+            // a concurrent request that raced the rotation still holds the previous token
+            const graceMs = secondsToMs(this.options.reuseGraceSeconds ?? DEFAULT_REUSE_GRACE_SECONDS);
+            if (
+                series.previousTokenHash !== undefined &&
+                series.rotatedAt !== undefined &&
+                now - series.rotatedAt < graceMs &&
+                safeEqual(tokenHash, series.previousTokenHash)
+            ) {
+                // a hashed key cannot be handed out again, so each racer gets a session of its own
+                const shared = live[live.length - 1];
+                if (shared && !shared.hashed) {
+                    return { status: "resumed", seriesId, sessionId: shared.key };
+                }
+                const minted = await mint(series);
+                await store.set(seriesId, { ...series, sessions: [...live, minted.remembered] }, ttlSeconds);
+                return { status: "resumed", seriesId, sessionId: minted.sessionId };
+            }
+
+            this.logger?.warn("Remember-me token reused; revoking the series.", { seriesId });
+            await store.del(seriesId);
+            this.clearCookie(ctx);
+            return {
+                status: "reused",
+                seriesId,
+                payload: series.payload,
+                sessions: live,
+                ...(series.ownerKey !== undefined ? { ownerKey: series.ownerKey } : {}),
+            };
+        });
+    }
+
+    /**
+     * Deletes the series named by the request's remember-me cookie, if any.
+     */
+    async deleteSeries(ctx: HttpContext): Promise<void> {
+        const credential = this.read(ctx);
+        if (credential) {
+            await this.options.store.del(credential.seriesId);
+        }
+    }
+
+    get supportsOwnerIndex(): boolean {
+        return this.options.store.deleteByOwner !== undefined;
+    }
+
+    async deleteByOwner(ownerKey: string): Promise<number> {
+        return (await this.options.store.deleteByOwner?.(ownerKey)) ?? 0;
+    }
+
+    clearCookie(ctx: HttpContext): void {
+        if (ctx.getCookie(this.cookieName)) {
+            ctx.clearCookie(this.cookieName, this.cookieOptions);
+        }
+    }
+
+    private read(ctx: HttpContext): { seriesId: string; token: string } | null {
+        const raw = ctx.getCookie(this.cookieName);
+        if (!raw) return null;
+
+        const idx = raw.indexOf(".");
+        const seriesId = raw.slice(0, idx);
+        const token = raw.slice(idx + 1);
+        if (idx < 0 || !seriesId || !token) {
+            ctx.clearCookie(this.cookieName, this.cookieOptions);
+            return null;
+        }
+        return { seriesId, token };
+    }
+
+    private setCookie(ctx: HttpContext, seriesId: string, token: string, ttlSeconds: number): void {
+        ctx.setCookie(this.cookieName, `${seriesId}.${token}`, { ...this.cookieOptions, maxAgeSeconds: ttlSeconds });
+    }
+}
@@ -0,0 +1,62 @@
+import type { SessionDataPatch, SessionDataValue } from "../store/SessionStore";
+
+/**
+ * Per-request handle on a session's key/value data, returned by `SessionKit.data()`.
+ *
+ * The stored data is loaded on the first `get`; writes are buffered and saved once, when the
+ * request ends. A flashed value survives until a later request reads it.
+ */
+export class SessionData {
+    private loaded: Promise<Record<string, SessionDataValue>> | null = null;
+    private readonly changes = new Map<string, SessionDataValue | null>(); // null deletes the key
+    private readonly consumed = new Set<string>();
+
+    constructor(private readonly load: () => Promise<Record<string, SessionDataValue>>) {}
+
+    async get<T = unknown>(key: string): Promise<T | undefined> {
+        const changed = this.changes.get(key);
+        if (changed !== undefined) {
+            return changed?.value as T | undefined;
+        }
+
+        this.loaded ??= this.load();
+        const entry = (await this.loaded)[key];
+        if (entry?.flash) {
+            this.consumed.add(key);
+        }
+        return entry?.value as T | undefined;
+    }
+
+    set(key: string, value: unknown): void {
+        this.changes.set(key, { value });
+    }
+
+    /**
+     * Stores a read-once value, e.g. a notice shown after a redirect.
+     */
+    flash(key: string, value: unknown): void {
+        this.changes.set(key, { value, flash: true });
+    }
+
+    delete(key: string): void {
+        this.changes.set(key, null);
+    }
+
+    /**
+     * Returns the unsaved changes, including flashed values read by this request, and forgets them.
+     */
+    takePatch(): SessionDataPatch | null {
+        const patch: SessionDataPatch = { set: {}, delete: [] };
+        for (const key of this.consumed) {
+            if (!this.changes.has(key)) patch.delete.push(key);
+        }
+        for (const [key, value] of this.changes) {
+            if (value) patch.set[key] = value;
+            else patch.delete.push(key);
+        }
+
+        this.changes.clear();
+        this.consumed.clear();
+        return Object.keys(patch.set).length > 0 || patch.delete.length > 0 ? patch : null;
+    }
+}
@@ -0,0 +1,23 @@
+import type { SessionStore } from "../store/SessionStore";
+
+/**
+ * Revoked IDs of sessions that live on the client, kept in any {@link SessionStore} until the
+ * session would have expired anyway. An entry's `createdAt` is when the revocation takes effect.
+ */
+export class SessionDenylist {
+    constructor(private readonly store: SessionStore<unknown>) {}
+
+    /**
+     * Revokes `sessionId` from `revokedAt` (default now) until `expiresAt`.
+     */
+    async add(sessionId: string, expiresAt: number, revokedAt: number = Date.now()): Promise<void> {
+        const ttlSeconds = Math.ceil((expiresAt - Date.now()) / 1000);
+        if (ttlSeconds <= 0) return;
+        await this.store.set(sessionId, { payload: null, createdAt: revokedAt, expiresAt }, ttlSeconds);
+    }
+
+    async has(sessionId: string): Promise<boolean> {
+        const entry = await this.store.get(sessionId);
+        return entry !== null && Date.now() >= entry.createdAt;
+    }
+}
@@ -0,0 +1,67 @@
+import type { HttpContext } from "../http/HttpContext";
+import type { Logger } from "../errors";
+
+type SessionEventBase<TPrincipal> = {
+    sessionId: string;
+    principal: TPrincipal | null; // null for pending and guest sessions
+};
+
+/**
+ * Session lifecycle events emitted by SessionKit, keyed by event type.
+ */
+export type SessionEventMap<TPrincipal> = {
+    created: SessionEventBase<TPrincipal> & { reason: "sign_in" | "upgrade" | "impersonation" | "remember_me" | "guest"; expiresAt: number };
+    resolved: SessionEventBase<TPrincipal> & { reason: "active" | "pending" | "guest" | "rotation_grace" };
+    touched: SessionEventBase<TPrincipal> & { reason: "renewal" | "activity"; expiresAt: number };
+    refreshed: SessionEventBase<TPrincipal> & { reason: "token_refresh"; expiresAt: number };
+    refreshFailed: SessionEventBase<TPrincipal> & { reason: "unauth" | "revoke"; error: unknown };
+    rotated: SessionEventBase<TPrincipal> & { reason: "periodic" | "manual"; previousSessionId: string };
+    revoked: SessionEventBase<TPrincipal> & { reason: "sign_out" | "fingerprint_mismatch" | "refresh_failed" | "remember_me_reused" };
+    expired: SessionEventBase<TPrincipal> & { reason: "ttl" | "absolute_ttl" | "idle_timeout" };
+};
+
+export type SessionEventType = keyof SessionEventMap<unknown>;
+
+export type SessionEventListener<TPrincipal, K extends SessionEventType> = (
+    event: SessionEventMap<TPrincipal>[K],
+    ctx: HttpContext
+) => Promise<void> | void;
+
+/**
+ * Typed listener registry behind `SessionKit.on`/`off`. Listeners are not awaited and their
+ * errors (sync or async) are only logged, so a listener can never break the request.
+ */
+export class SessionEventEmitter<TPrincipal> {
+    private readonly listeners = new Map<SessionEventType, Set<SessionEventListener<TPrincipal, any>>>();
+
+    constructor(private readonly logger?: Logger) {}
+
+    on<K extends SessionEventType>(type: K, listener: SessionEventListener<TPrincipal, K>): () => void {
+        let set = this.listeners.get(type);
+        if (!set) {
+            set = new Set();
+            this.listeners.set(type, set);
+        }
+        set.add(listener);
+        return () => this.off(type, listener);
+    }
+
+    off<K extends SessionEventType>(type: K, listener: SessionEventListener<TPrincipal, K>): void {
+        this.listeners.get(type)?.delete(listener);
+    }
+
+    emit<K extends SessionEventType>(type: K, event: SessionEventMap<TPrincipal>[K], ctx: HttpContext): void {
+        const set = this.listeners.get(type);
+        if (!set) return;
+
+        const report = (error: unknown) =>
+            this.logger?.warn("Session event listener failed.", { type, sessionId: event.sessionId, error });
+        for (const listener of [...set]) {
+            try {
+                Promise.resolve(listener(event, ctx)).catch(report);
+            } catch (error) {
+                report(error);
+            }
+        }
+    }
+}
@@ -1,5 +1,95 @@
+import { randomBytes } from "crypto";
 import { newSessionId } from "../utils/uuid";
 
+/**
+ * Creates session IDs and recognises well-formed ones. SessionKit rejects credentials that fail
+ * `validate` before reading the store.
+ */
+export interface SessionIdGenerator {
+  generate(): string;
+  validate(sessionId: string): boolean;
+}
+
+const UUID_V4 = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+const URL_SAFE_ID = /^[A-Za-z0-9._~-]{1,256}$/;
+const MIN_ENTROPY_BYTES = 16;
+
 export function generateSessionId(): string {
   return newSessionId();
 }
+
+/**
+ * Generator used when `sessionIdGenerator` is not set: random UUIDs, while any URL-safe ID of up
+ * to 256 characters is accepted so sessions from custom or earlier ID schemes keep resolving.
+ */
+export const defaultSessionIdGenerator: SessionIdGenerator = {
+  generate: generateSessionId,
+  validate: (sessionId) => URL_SAFE_ID.test(sessionId),
+};
+
+/**
+ * Random UUIDv4 IDs (122 bits of entropy). Only UUIDv4 values validate.
+ */
+export class UuidSessionIdGenerator implements SessionIdGenerator {
+  generate(): string {
+    return generateSessionId();
+  }
+
+  validate(sessionId: string): boolean {
+    return UUID_V4.test(sessionId);
+  }
+}
+
+/**
+ * Options for {@link Base64UrlSessionIdGenerator}.
+ */
+export type Base64UrlSessionIdGeneratorOptions = {
+  bytes?: number; // random bytes per ID, default 32 (256 bits), minimum 16
+};
+
+/**
+ * Random base64url IDs, 256 bits by default. Only values of the exact encoded length validate.
+ */
+export class Base64UrlSessionIdGenerator implements SessionIdGenerator {
+  private readonly bytes: number;
+  private readonly pattern: RegExp;
+
+  constructor(options?: Base64UrlSessionIdGeneratorOptions) {
+    this.bytes = options?.bytes ?? 32;
+    if (!Number.isInteger(this.bytes) || this.bytes < MIN_ENTROPY_BYTES) {
+      throw new Error(`Session IDs need at least ${MIN_ENTROPY_BYTES} random bytes.`);
+    }
+    this.pattern = new RegExp(`^[A-Za-z0-9_-]{${Math.ceil((this.bytes * 4) / 3)}}$`);
+  }
+
+  generate(): string {
+    return randomBytes(this.bytes).toString("base64url");
+  }
+
+  validate(sessionId: string): boolean {
+    return this.pattern.test(sessionId);
+  }
+}
+
+/**
+ * Typed IDs such as `sess_<base64url>`: a fixed prefix (useful for secret scanning) in front of
+ * IDs from another generator, 256-bit base64url by default.
+ */
+export class PrefixedSessionIdGenerator implements SessionIdGenerator {
+  constructor(
+    private readonly prefix: string,
+    private readonly inner: SessionIdGenerator = new Base64UrlSessionIdGenerator(),
+  ) {
+    if (!prefix) {
+      throw new Error("Session ID prefix must not be empty.");
+    }
+  }
+
+  generate(): string {
+    return `${this.prefix}${this.inner.generate()}`;
+  }
+
+  validate(sessionId: string): boolean {
+    return sessionId.startsWith(this.prefix) && this.inner.validate(sessionId.slice(this.prefix.length));
+  }
+}
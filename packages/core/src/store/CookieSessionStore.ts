@@ -0,0 +1,231 @@
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from "crypto";
+import type { CookieOptions } from "../cookie/CookieCodec";
+import type { HttpContext } from "../http/HttpContext";
+import { SessionDenylist } from "../session/SessionDenylist";
+import type { SessionStore, StoredSession } from "./SessionStore";
+
+const DEFAULT_COOKIE_NAME = "session";
+const DEFAULT_CHUNK_SIZE = 3800;
+
+/**
+ * Configuration for {@link CookieSessionStore}.
+ */
+export type CookieSessionStoreOptions = {
+    secrets: string[]; // key ring: the first secret encrypts, all of them decrypt
+    cookie?: Omit<CookieOptions, "maxAgeSeconds" | "signing">; // name defaults to "session"; must differ from the session ID cookie
+    denylist?: SessionStore<unknown>; // revoked session IDs, kept until the session would have expired
+    chunkSize?: number; // longest cookie value before splitting into `<name>.1`, `<name>.2`, ..., default 3800
+};
+
+type SealedSession<TPayload> = { id: string; session: StoredSession<TPayload> };
+
+/**
+ * Encrypts sessions into a (possibly chunked) cookie and reads them back.
+ */
+class SessionCookieJar<TPayload> {
+    constructor(
+        private readonly keys: [Buffer, ...Buffer[]],
+        private readonly cookieName: string,
+        private readonly cookieOptions: Omit<CookieOptions, "name" | "maxAgeSeconds" | "signing">,
+        private readonly chunkSize: number
+    ) {}
+
+    read(ctx: HttpContext): SealedSession<TPayload> | null {
+        let sealed = "";
+        for (let i = 0; ; i++) {
+            const chunk = ctx.getCookie(this.chunkName(i));
+            if (chunk === null) break;
+            sealed += chunk;
+        }
+        if (!sealed) return null;
+
+        const plaintext = this.decrypt(sealed);
+        if (plaintext === null) return null;
+        try {
+            const value = JSON.parse(plaintext) as SealedSession<TPayload>;
+            return typeof value.id === "string" && value.session ? value : null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Writes `value` and returns the number of cookies it took.
+     */
+    write(ctx: HttpContext, value: SealedSession<TPayload>, ttlSeconds: number, previousChunks: number): number {
+        const sealed = this.encrypt(JSON.stringify(value));
+        const chunks: string[] = [];
+        for (let i = 0; i < sealed.length; i += this.chunkSize) {
+            chunks.push(sealed.slice(i, i + this.chunkSize));
+        }
+
+        chunks.forEach((chunk, i) => {
+            ctx.setCookie(this.chunkName(i), chunk, { ...this.cookieOptions, maxAgeSeconds: ttlSeconds });
+        });
+        // a shorter value must not be glued to the tail of a longer one
+        this.clear(ctx, previousChunks, chunks.length);
+        return chunks.length;
+    }
+
+    /**
+     * Clears the cookies from index `from`, covering those sent with the request and the
+     * `writtenChunks` this response has set.
+     */
+    clear(ctx: HttpContext, writtenChunks: number, from = 0): void {
+        for (let i = from; i < writtenChunks || ctx.getCookie(this.chunkName(i)) !== null; i++) {
+            ctx.clearCookie(this.chunkName(i), this.cookieOptions);
+        }
+    }
+
+    private chunkName(index: number): string {
+        return index === 0 ? this.cookieName : `${this.cookieName}.${index}`;
+    }
+
+    private encrypt(plaintext: string): string {
+        const iv = randomBytes(12);
+        const cipher = createCipheriv("aes-256-gcm", this.keys[0], iv);
+        cipher.setAAD(Buffer.from(this.cookieName));
+        const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+        return [iv, ciphertext, cipher.getAuthTag()].map((part) => part.toString("base64url")).join(".");
+    }
+
+    private decrypt(sealed: string): string | null {
+        const [iv, ciphertext, tag] = sealed.split(".").map((part) => Buffer.from(part, "base64url"));
+        if (!iv || !ciphertext || !tag) return null;
+
+        for (const key of this.keys) {
+            try {
+                const decipher = createDecipheriv("aes-256-gcm", key, iv);
+                decipher.setAAD(Buffer.from(this.cookieName));
+                decipher.setAuthTag(tag);
+                return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+            } catch {
+                // try the next key
+            }
+        }
+        return null;
+    }
+}
+
+/**
+ * One request's view of the session cookie. The cookie holds a single session: the one sent
+ * with the request until this request writes another.
+ */
+class CookieSessionView<TPayload> implements SessionStore<TPayload> {
+    private current: SealedSession<TPayload> | null | undefined; // undefined until the request cookie is read
+    private readonly expiries = new Map<string, number>(); // sessions seen by this request, for the denylist
+    private writtenChunks = 0;
+
+    constructor(
+        private readonly jar: SessionCookieJar<TPayload>,
+        private readonly ctx: HttpContext,
+        private readonly denylist?: SessionDenylist
+    ) {}
+
+    async get(sessionId: string): Promise<StoredSession<TPayload> | null> {
+        const found = this.load();
+        if (!found || found.id !== sessionId || Date.now() >= found.session.expiresAt) return null;
+        if (await this.denylist?.has(sessionId)) return null;
+        return found.session;
+    }
+
+    async set(sessionId: string, value: StoredSession<TPayload>, ttlSeconds: number): Promise<void> {
+        this.load();
+        if (value.rotatedTo !== undefined) {
+            // a superseded ID lives on in the client's old cookie: revoke it once the grace window ends
+            await this.denylist?.add(sessionId, this.expiries.get(sessionId) ?? value.expiresAt, value.expiresAt);
+            return;
+        }
+
+        this.current = { id: sessionId, session: value };
+        this.expiries.set(sessionId, value.expiresAt);
+        this.writtenChunks = this.jar.write(this.ctx, this.current, ttlSeconds, this.writtenChunks);
+    }
+
+    async del(sessionId: string): Promise<void> {
+        const found = this.load();
+        const expiresAt = this.expiries.get(sessionId);
+        // only sessions this request has seen have a known expiry to revoke them until
+        if (expiresAt !== undefined) {
+            await this.denylist?.add(sessionId, expiresAt);
+        }
+        if (found?.id === sessionId) {
+            this.jar.clear(this.ctx, this.writtenChunks);
+            this.current = null;
+            this.writtenChunks = 0;
+        }
+    }
+
+    async touch(sessionId: string, ttlSeconds: number): Promise<void> {
+        const found = this.load();
+        if (found?.id !== sessionId) return;
+
+        const now = Date.now();
+        await this.set(sessionId, { ...found.session, expiresAt: now + ttlSeconds * 1000, lastSeenAt: now }, ttlSeconds);
+    }
+
+    private load(): SealedSession<TPayload> | null {
+        if (this.current === undefined) {
+            this.current = this.jar.read(this.ctx);
+            if (this.current) this.expiries.set(this.current.id, this.current.session.expiresAt);
+        }
+        return this.current;
+    }
+}
+
+/**
+ * Stateless {@link SessionStore}: each session is encrypted (AES-256-GCM) into a cookie of its
+ * own, split across several cookies when it outgrows `chunkSize`, so no server storage is needed.
+ * The session ID still travels in the transport cookie and must match the one sealed inside.
+ *
+ * SessionKit uses {@link forRequest}; the store itself cannot be read without a request. A session
+ * cannot be taken back from the client, so deletion only clears the cookie unless a `denylist`
+ * store is configured. Owner indexing, session data and restoring the admin session after
+ * impersonation need server storage and are not available.
+ */
+export class CookieSessionStore<TPayload> implements SessionStore<TPayload> {
+    private readonly jar: SessionCookieJar<TPayload>;
+    private readonly denylist: SessionDenylist | undefined;
+    private readonly views = new WeakMap<object, CookieSessionView<TPayload>>(); // one per request, see HttpContext.requestKey
+
+    constructor(options: CookieSessionStoreOptions) {
+        const [current, ...previous] = options.secrets;
+        if (!current) {
+            throw new Error("CookieSessionStore requires at least one secret.");
+        }
+        const { name, ...cookieOptions } = options.cookie ?? {};
+        const keys: [Buffer, ...Buffer[]] = [deriveKey(current), ...previous.map(deriveKey)];
+        this.jar = new SessionCookieJar(keys, name ?? DEFAULT_COOKIE_NAME, cookieOptions, options.chunkSize ?? DEFAULT_CHUNK_SIZE);
+        this.denylist = options.denylist ? new SessionDenylist(options.denylist) : undefined;
+    }
+
+    forRequest(ctx: HttpContext): SessionStore<TPayload> {
+        const key = ctx.requestKey?.() ?? ctx;
+        let view = this.views.get(key);
+        if (!view) {
+            view = new CookieSessionView(this.jar, ctx, this.denylist);
+            this.views.set(key, view);
+        }
+        return view;
+    }
+
+    async get(): Promise<StoredSession<TPayload> | null> {
+        throw requestScoped();
+    }
+
+    async set(): Promise<void> {
+        throw requestScoped();
+    }
+
+    async del(): Promise<void> {
+        throw requestScoped();
+    }
+}
+
+function deriveKey(secret: string): Buffer {
+    return createHmac("sha256", secret).update("sessionkit:cookie-session").digest();
+}
+
+function requestScoped(): Error {
+    return new Error("CookieSessionStore keeps sessions in request cookies; use forRequest(ctx).");
+}
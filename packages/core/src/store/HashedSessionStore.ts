@@ -0,0 +1,223 @@
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from "crypto";
+import { SessionKitError } from "../errors";
+import type { OwnedSession, SessionDataPatch, SessionDataValue, SessionStore, StoredSession } from "./SessionStore";
+
+/**
+ * HMAC key ring for {@link HashedSessionStore}. The first secret keys new writes; the rest are
+ * previous secrets whose entries are found on read and migrated to the first one.
+ */
+export type HashedSessionStoreOptions = {
+    secrets: string[];
+};
+
+function hmac(value: string, secret: string): Buffer {
+    return createHmac("sha256", secret).update(value).digest();
+}
+
+/**
+ * {@link SessionStore} wrapper that files sessions under an HMAC of the session ID, so a leaked
+ * keyspace or backup holds no usable session IDs. Works with any store.
+ *
+ * `listByOwner` reports hashed IDs; SessionKit matches and deletes them through `hashId`/`delByHash`.
+ * Raw IDs inside records are protected too: `rotatedTo` (needed to hand a concurrent request the
+ * successor of a rotated session) and `impersonator.sessionId` (needed to restore the admin's
+ * session) are encrypted with a key derived from the secret.
+ */
+export class HashedSessionStore<TPayload> implements SessionStore<TPayload> {
+    private readonly secrets: [string, ...string[]];
+
+    constructor(
+        private readonly inner: SessionStore<TPayload>,
+        options: HashedSessionStoreOptions
+    ) {
+        const [current, ...previous] = options.secrets;
+        if (!current) {
+            throw new Error("HashedSessionStore requires at least one secret.");
+        }
+        this.secrets = [current, ...previous];
+    }
+
+    hashId(sessionId: string): string {
+        return hmac(sessionId, this.secrets[0]).toString("base64url");
+    }
+
+    hashIds(sessionId: string): string[] {
+        return this.secrets.map((secret) => hmac(sessionId, secret).toString("base64url"));
+    }
+
+    async get(sessionId: string): Promise<StoredSession<TPayload> | null> {
+        const found = await this.locate(sessionId);
+        return found ? this.open(found.value) : null;
+    }
+
+    async set(sessionId: string, value: StoredSession<TPayload>, ttlSeconds: number): Promise<void> {
+        const previousKeys = this.hashIds(sessionId).slice(1);
+        if (previousKeys.length > 0) {
+            // an entry still filed under a previous secret moves first, so its data comes along
+            await this.locate(sessionId);
+        }
+        await this.inner.set(this.hashId(sessionId), this.seal(value), ttlSeconds);
+        for (const previousKey of previousKeys) {
+            await this.inner.del(previousKey);
+        }
+    }
+
+    async del(sessionId: string): Promise<void> {
+        for (const key of this.hashIds(sessionId)) {
+            await this.inner.del(key);
+        }
+    }
+
+    async delByHash(hashedId: string): Promise<void> {
+        await this.inner.del(hashedId);
+    }
+
+    async touch(sessionId: string, ttlSeconds: number): Promise<void> {
+        const key = await this.keyFor(sessionId);
+        if (!key) return;
+
+        if (this.inner.touch) {
+            await this.inner.touch(key, ttlSeconds);
+            return;
+        }
+        const value = await this.inner.get(key);
+        if (value) {
+            const now = Date.now();
+            await this.inner.set(key, { ...value, expiresAt: now + ttlSeconds * 1000, lastSeenAt: now }, ttlSeconds);
+        }
+    }
+
+    async compareAndSet(
+        sessionId: string,
+        expectedVersion: number,
+        value: StoredSession<TPayload>,
+        ttlSeconds: number
+    ): Promise<boolean> {
+        const key = await this.keyFor(sessionId);
+        if (!key) return false;
+
+        const sealed = this.seal(value);
+        if (this.inner.compareAndSet) {
+            return this.inner.compareAndSet(key, expectedVersion, sealed, ttlSeconds);
+        }
+
+        // last-write-wins stores: the version check is best effort
+        const current = await this.inner.get(key);
+        if (!current || (current.version ?? 0) !== expectedVersion) return false;
+        await this.inner.set(key, sealed, ttlSeconds);
+        return true;
+    }
+
+    async getData(sessionId: string): Promise<Record<string, SessionDataValue>> {
+        if (!this.inner.getData) {
+            throw new SessionKitError("INTERNAL_ERROR", "Wrapped session store does not support session data.");
+        }
+        const key = await this.keyFor(sessionId);
+        return key ? this.inner.getData(key) : {};
+    }
+
+    async patchData(sessionId: string, patch: SessionDataPatch, ttlSeconds: number): Promise<void> {
+        if (!this.inner.patchData) {
+            throw new SessionKitError("INTERNAL_ERROR", "Wrapped session store does not support session data.");
+        }
+        const key = await this.keyFor(sessionId);
+        if (key) await this.inner.patchData(key, patch, ttlSeconds);
+    }
+
+    async listByOwner(ownerKey: string): Promise<OwnedSession<TPayload>[]> {
+        if (!this.inner.listByOwner) {
+            throw new SessionKitError("INTERNAL_ERROR", "Wrapped session store does not support owner indexing.");
+        }
+        const sessions = await this.inner.listByOwner(ownerKey);
+        return sessions.map(({ sessionId, session }) => ({ sessionId, session: this.open(session) }));
+    }
+
+    async deleteByOwner(ownerKey: string): Promise<number> {
+        if (!this.inner.deleteByOwner) {
+            throw new SessionKitError("INTERNAL_ERROR", "Wrapped session store does not support owner indexing.");
+        }
+        return this.inner.deleteByOwner(ownerKey);
+    }
+
+    async close(): Promise<void> {
+        await this.inner.close?.();
+    }
+
+    /**
+     * Finds the entry for `sessionId`, first migrating one written under a previous secret to
+     * the current secret. The returned value is still sealed.
+     */
+    private async locate(sessionId: string): Promise<{ key: string; value: StoredSession<TPayload> } | null> {
+        const key = this.hashId(sessionId);
+        const value = await this.inner.get(key);
+        if (value) {
+            return { key, value };
+        }
+
+        for (const secret of this.secrets.slice(1)) {
+            const previousKey = hmac(sessionId, secret).toString("base64url");
+            const previous = await this.inner.get(previousKey);
+            if (!previous) continue;
+
+            const migrated = this.seal(this.open(previous));
+            const ttlSeconds = Math.max(1, Math.ceil((previous.expiresAt - Date.now()) / 1000));
+            await this.inner.set(key, migrated, ttlSeconds);
+            if (this.inner.getData && this.inner.patchData) {
+                const data = await this.inner.getData(previousKey);
+                await this.inner.patchData(key, { set: data, delete: [] }, ttlSeconds);
+            }
+            await this.inner.del(previousKey);
+            return { key, value: migrated };
+        }
+        return null;
+    }
+
+    private async keyFor(sessionId: string): Promise<string | null> {
+        if (this.secrets.length === 1) {
+            return this.hashId(sessionId);
+        }
+        return (await this.locate(sessionId))?.key ?? null;
+    }
+
+    private seal(value: StoredSession<TPayload>): StoredSession<TPayload> {
+        const { rotatedTo, impersonator } = value;
+        return {
+            ...value,
+            ...(rotatedTo !== undefined ? { rotatedTo: this.encrypt(rotatedTo) } : {}),
+            ...(impersonator ? { impersonator: { ...impersonator, sessionId: this.encrypt(impersonator.sessionId) } } : {}),
+        };
+    }
+
+    private open(value: StoredSession<TPayload>): StoredSession<TPayload> {
+        const { rotatedTo, impersonator } = value;
+        return {
+            ...value,
+            ...(rotatedTo !== undefined ? { rotatedTo: this.decrypt(rotatedTo) } : {}),
+            ...(impersonator ? { impersonator: { ...impersonator, sessionId: this.decrypt(impersonator.sessionId) } } : {}),
+        };
+    }
+
+    private encrypt(sessionId: string): string {
+        const iv = randomBytes(12);
+        const cipher = createCipheriv("aes-256-gcm", hmac("sessionkit:seal", this.secrets[0]), iv);
+        const ciphertext = Buffer.concat([cipher.update(sessionId, "utf8"), cipher.final()]);
+        return [iv, ciphertext, cipher.getAuthTag()].map((part) => part.toString("base64url")).join(".");
+    }
+
+    private decrypt(sealed: string): string {
+        const [iv, ciphertext, tag] = sealed.split(".").map((part) => Buffer.from(part, "base64url"));
+        if (!iv || !ciphertext || !tag) return sealed;
+
+        for (const secret of this.secrets) {
+            try {
+                const decipher = createDecipheriv("aes-256-gcm", hmac("sessionkit:seal", secret), iv);
+                decipher.setAuthTag(tag);
+                return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+            } catch {
+                // try the next secret
+            }
+        }
+        // undecryptable (secret dropped): the referenced session simply cannot be found
+        return sealed;
+    }
+}
@@ -0,0 +1,229 @@
+import type { HttpContext } from "../http/HttpContext";
+import { SessionDenylist } from "../session/SessionDenylist";
+import { BearerTransport, type SessionTransport, type TransportCredential } from "../transport/SessionTransport";
+import { JwtKeySet, type JwtClaims, type JwtKey } from "../utils/jwt";
+import type { SessionStore, StoredSession } from "./SessionStore";
+
+const DEFAULT_RESPONSE_HEADER = "x-session-token";
+
+/**
+ * Configuration for {@link JwtSessionStore}.
+ */
+export type JwtSessionStoreOptions = {
+    keys: JwtKey[]; // key set: the first key with private material signs, `kid` picks the verifying key
+    denylist?: SessionStore<unknown>; // revoked token IDs (`jti`), kept until the token would have expired
+    transport?: SessionTransport; // carries the token, default BearerTransport
+    responseHeader?: string; // reissued tokens for transports that cannot write the response, default "x-session-token"
+};
+
+type SessionClaims<TPayload> = Omit<StoredSession<TPayload>, "payload" | "expiresAt">;
+
+function toClaims<TPayload>(sessionId: string, session: StoredSession<TPayload>): JwtClaims {
+    const { payload, expiresAt, ...rest } = session;
+    return {
+        jti: sessionId,
+        iat: Math.floor(Date.now() / 1000),
+        exp: Math.floor(expiresAt / 1000),
+        payload,
+        session: rest,
+    };
+}
+
+function fromClaims<TPayload>(claims: JwtClaims): { sessionId: string; session: StoredSession<TPayload> } | null {
+    const { jti, exp, payload, session } = claims;
+    if (typeof jti !== "string" || typeof exp !== "number" || !session || typeof session !== "object") {
+        return null;
+    }
+    const rest = session as SessionClaims<TPayload>;
+    return { sessionId: jti, session: { ...rest, payload: payload as TPayload, expiresAt: exp * 1000 } };
+}
+
+/**
+ * One request's view of the tokens it has seen and minted. Writing a session whose token the
+ * client holds reissues the token, so refreshes and updates reach the client.
+ */
+class JwtSessionView<TPayload> implements SessionStore<TPayload> {
+    private readonly sessions = new Map<string, StoredSession<TPayload>>(); // presented or written by this request
+    private readonly tokens = new Map<string, string>(); // signed tokens of `sessions`, dropped on change
+    private readonly held = new Set<string>(); // IDs whose token the client holds or receives with this response
+
+    constructor(
+        private readonly ctx: HttpContext,
+        private readonly keys: JwtKeySet,
+        private readonly transport: JwtTransport<TPayload>,
+        private readonly denylist?: SessionDenylist
+    ) {}
+
+    present(sessionId: string, session: StoredSession<TPayload>): void {
+        this.sessions.set(sessionId, session);
+        this.held.add(sessionId);
+    }
+
+    /**
+     * Returns the signed token of a session this request knows, marking it as sent to the client.
+     */
+    deliver(sessionId: string): string | null {
+        const token = this.token(sessionId);
+        if (token !== null) this.held.add(sessionId);
+        return token;
+    }
+
+    token(sessionId: string): string | null {
+        const cached = this.tokens.get(sessionId);
+        if (cached !== undefined) return cached;
+
+        const session = this.sessions.get(sessionId);
+        if (!session) return null;
+        const token = this.keys.sign(toClaims(sessionId, session));
+        this.tokens.set(sessionId, token);
+        return token;
+    }
+
+    async get(sessionId: string): Promise<StoredSession<TPayload> | null> {
+        const session = this.sessions.get(sessionId);
+        if (!session || Date.now() >= session.expiresAt) return null;
+        if (await this.denylist?.has(sessionId)) return null;
+        return session;
+    }
+
+    async set(sessionId: string, value: StoredSession<TPayload>, ttlSeconds: number): Promise<void> {
+        if (value.rotatedTo !== undefined) {
+            // the superseded token stays valid until it expires: revoke it once the grace window ends
+            const expiresAt = this.sessions.get(sessionId)?.expiresAt ?? value.expiresAt;
+            await this.denylist?.add(sessionId, expiresAt, value.expiresAt);
+            return;
+        }
+
+        this.sessions.set(sessionId, value);
+        this.tokens.delete(sessionId);
+        if (this.held.has(sessionId)) {
+            this.transport.issue(this.ctx, sessionId, ttlSeconds);
+        }
+    }
+
+    async del(sessionId: string): Promise<void> {
+        const session = this.sessions.get(sessionId);
+        // only tokens this request has seen have a known expiry to revoke them until
+        if (session) {
+            await this.denylist?.add(sessionId, session.expiresAt);
+        }
+        this.sessions.delete(sessionId);
+        this.tokens.delete(sessionId);
+        this.held.delete(sessionId);
+    }
+}
+
+/**
+ * Reads and issues signed tokens through an inner transport. The session ID is the token's `jti`.
+ */
+class JwtTransport<TPayload> implements SessionTransport {
+    readonly issuesOnResponse: boolean;
+
+    constructor(
+        private readonly inner: SessionTransport,
+        private readonly keys: JwtKeySet,
+        private readonly responseHeader: string,
+        private readonly viewFor: (ctx: HttpContext) => JwtSessionView<TPayload>
+    ) {
+        this.issuesOnResponse = inner.issuesOnResponse;
+    }
+
+    read(ctx: HttpContext): TransportCredential {
+        const { sessionId: token, tampered } = this.inner.read(ctx);
+        if (!token) {
+            return { sessionId: null, tampered, transport: this };
+        }
+
+        const claims = this.keys.verify(token);
+        const found = claims ? fromClaims<TPayload>(claims) : null;
+        if (!found) {
+            return { sessionId: null, tampered: true, transport: this };
+        }
+        this.viewFor(ctx).present(found.sessionId, found.session);
+        return { sessionId: found.sessionId, tampered: false, transport: this };
+    }
+
+    issue(ctx: HttpContext, sessionId: string, ttlSeconds: number): void {
+        const token = this.viewFor(ctx).deliver(sessionId);
+        if (token === null) return;
+
+        this.inner.issue(ctx, token, ttlSeconds);
+        if (!this.inner.issuesOnResponse) {
+            ctx.setHeader(this.responseHeader, token);
+        }
+    }
+
+    clear(ctx: HttpContext): void {
+        this.inner.clear(ctx);
+    }
+
+    token(ctx: HttpContext, sessionId: string): string {
+        const token = this.viewFor(ctx).token(sessionId);
+        if (token === null) {
+            throw new Error("JwtSessionStore can only sign sessions written during this request.");
+        }
+        return token;
+    }
+}
+
+/**
+ * Stateless {@link SessionStore}: each session is a signed JWT (HS256, ES256 or EdDSA) carrying
+ * the payload, `iat` and `exp`, verified locally on every request. Pass {@link transport} as
+ * `SessionKitOptions.transport`; the session ID is the token's `jti` and `SignInResult.token`
+ * is the JWT. Writes to the session (token refresh, rolling renewal, updates) reissue the token,
+ * in the `responseHeader` for bearer clients.
+ *
+ * SessionKit uses {@link forRequest}; the store itself cannot be read without a request. A token
+ * stays valid until `exp` unless a `denylist` store is configured, which `signOut` and rotation
+ * add the `jti` to. Owner indexing, session data and restoring the admin session after
+ * impersonation need server storage and are not available.
+ */
+export class JwtSessionStore<TPayload> implements SessionStore<TPayload> {
+    readonly transport: SessionTransport;
+    private readonly keys: JwtKeySet;
+    private readonly denylist: SessionDenylist | undefined;
+    private readonly jwtTransport: JwtTransport<TPayload>;
+    private readonly views = new WeakMap<object, JwtSessionView<TPayload>>(); // one per request, see HttpContext.requestKey
+
+    constructor(options: JwtSessionStoreOptions) {
+        this.keys = new JwtKeySet(options.keys);
+        this.denylist = options.denylist ? new SessionDenylist(options.denylist) : undefined;
+        this.jwtTransport = new JwtTransport(
+            options.transport ?? new BearerTransport(),
+            this.keys,
+            options.responseHeader ?? DEFAULT_RESPONSE_HEADER,
+            (ctx) => this.view(ctx)
+        );
+        this.transport = this.jwtTransport;
+    }
+
+    forRequest(ctx: HttpContext): SessionStore<TPayload> {
+        return this.view(ctx);
+    }
+
+    async get(): Promise<StoredSession<TPayload> | null> {
+        throw requestScoped();
+    }
+
+    async set(): Promise<void> {
+        throw requestScoped();
+    }
+
+    async del(): Promise<void> {
+        throw requestScoped();
+    }
+
+    private view(ctx: HttpContext): JwtSessionView<TPayload> {
+        const key = ctx.requestKey?.() ?? ctx;
+        let view = this.views.get(key);
+        if (!view) {
+            view = new JwtSessionView(ctx, this.keys, this.jwtTransport, this.denylist);
+            this.views.set(key, view);
+        }
+        return view;
+    }
+}
+
+function requestScoped(): Error {
+    return new Error("JwtSessionStore keeps sessions in signed tokens; use forRequest(ctx).");
+}
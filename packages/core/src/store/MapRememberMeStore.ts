@@ -0,0 +1,44 @@
+import type { RememberMeSeries, RememberMeStore } from "./RememberMeStore";
+
+type Entry<T> = { value: RememberMeSeries<T>; expiresAt: number };
+
+/**
+ * In-memory {@link RememberMeStore} intended for local development and tests.
+ */
+export class MapRememberMeStore<TPayload> implements RememberMeStore<TPayload> {
+    private readonly map = new Map<string, Entry<TPayload>>();
+
+    async get(seriesId: string): Promise<RememberMeSeries<TPayload> | null> {
+        const e = this.map.get(seriesId);
+        if (!e) return null;
+
+        if (Date.now() >= e.expiresAt) {
+            this.map.delete(seriesId);
+            return null;
+        }
+        return e.value;
+    }
+
+    async set(seriesId: string, value: RememberMeSeries<TPayload>, ttlSeconds: number): Promise<void> {
+        this.map.set(seriesId, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    }
+
+    async del(seriesId: string): Promise<void> {
+        this.map.delete(seriesId);
+    }
+
+    async deleteByOwner(ownerKey: string): Promise<number> {
+        let deleted = 0;
+        for (const [seriesId, e] of this.map.entries()) {
+            if (e.value.ownerKey === ownerKey) {
+                this.map.delete(seriesId);
+                deleted += 1;
+            }
+        }
+        return deleted;
+    }
+
+    async close(): Promise<void> {
+        this.map.clear();
+    }
+}
@@ -1,12 +1,13 @@
-import type { SessionStore, StoredSession } from "./SessionStore";
+import type { OwnedSession, SessionDataPatch, SessionDataValue, SessionStore, StoredSession } from "./SessionStore";
 
-type Entry<T> = { value: StoredSession<T>; expiresAt: number };
+type Entry<T> = { value: StoredSession<T>; expiresAt: number; data?: Record<string, SessionDataValue> };
 
 /**
  * In-memory {@link SessionStore} intended for local development and tests.
  */
 export class MapSessionStore<TPayload> implements SessionStore<TPayload> {
     private readonly map = new Map<string, Entry<TPayload>>();
+    private readonly owners = new Map<string, Set<string>>();
     private readonly cleanupTimer: NodeJS.Timeout | null;
 
     constructor(
@@ -25,7 +26,7 @@ export class MapSessionStore<TPayload> implements SessionStore<TPayload> {
         if (!e) return null;
 
         if (Date.now() >= e.expiresAt) {
-            this.map.delete(sessionId);
+            this.remove(sessionId);
             return null;
         }
         return e.value;
@@ -36,16 +37,45 @@ export class MapSessionStore<TPayload> implements SessionStore<TPayload> {
             this.cleanup();
             if (this.map.size >= this.options.maxSize) {
                 const firstKey = this.map.keys().next().value as string | undefined;
-                if (firstKey) this.map.delete(firstKey);
+                if (firstKey) this.remove(firstKey);
             }
         }
 
+        const previous = this.map.get(sessionId);
+        const previousOwner = previous?.value.ownerKey;
+        if (previousOwner !== undefined && previousOwner !== value.ownerKey) {
+            this.unindex(previousOwner, sessionId);
+        }
+
         const expiresAt = Date.now() + ttlSeconds * 1000;
-        this.map.set(sessionId, { value, expiresAt });
+        // session data lives in the entry, so it shares the session's expiry
+        this.map.set(sessionId, { value, expiresAt, ...(previous?.data ? { data: previous.data } : {}) });
+
+        if (value.ownerKey !== undefined) {
+            let ids = this.owners.get(value.ownerKey);
+            if (!ids) {
+                ids = new Set();
+                this.owners.set(value.ownerKey, ids);
+            }
+            ids.add(sessionId);
+        }
+    }
+
+    async compareAndSet(
+        sessionId: string,
+        expectedVersion: number,
+        value: StoredSession<TPayload>,
+        ttlSeconds: number
+    ): Promise<boolean> {
+        // check and write without yielding in between
+        const e = this.map.get(sessionId);
+        if (!e || Date.now() >= e.expiresAt || (e.value.version ?? 0) !== expectedVersion) return false;
+        await this.set(sessionId, value, ttlSeconds);
+        return true;
     }
 
     async del(sessionId: string): Promise<void> {
-        this.map.delete(sessionId);
+        this.remove(sessionId);
     }
 
     async touch(sessionId: string, ttlSeconds: number): Promise<void> {
@@ -56,19 +86,63 @@ export class MapSessionStore<TPayload> implements SessionStore<TPayload> {
         const expiresAt = now + ttlSeconds * 1000;
 
         e.expiresAt = expiresAt;
-        e.value = { ...e.value, expiresAt };
+        e.value = { ...e.value, expiresAt, lastSeenAt: now };
         this.map.set(sessionId, e);
     }
 
+    async getData(sessionId: string): Promise<Record<string, SessionDataValue>> {
+        return (await this.get(sessionId)) ? { ...this.map.get(sessionId)?.data } : {};
+    }
+
+    async patchData(sessionId: string, patch: SessionDataPatch, _ttlSeconds: number): Promise<void> {
+        const e = this.map.get(sessionId);
+        if (!e || Date.now() >= e.expiresAt) return;
+
+        const data = { ...e.data, ...patch.set };
+        for (const key of patch.delete) delete data[key];
+        e.data = data;
+    }
+
+    async listByOwner(ownerKey: string): Promise<OwnedSession<TPayload>[]> {
+        const out: OwnedSession<TPayload>[] = [];
+        for (const sessionId of [...(this.owners.get(ownerKey) ?? [])]) {
+            const session = await this.get(sessionId);
+            if (session) out.push({ sessionId, session });
+        }
+        return out;
+    }
+
+    async deleteByOwner(ownerKey: string): Promise<number> {
+        const sessions = await this.listByOwner(ownerKey);
+        for (const { sessionId } of sessions) {
+            this.remove(sessionId);
+        }
+        return sessions.length;
+    }
+
     async close(): Promise<void> {
         if (this.cleanupTimer) clearInterval(this.cleanupTimer);
         this.map.clear();
+        this.owners.clear();
     }
 
     private cleanup(): void {
         const now = Date.now();
         for (const [k, e] of this.map.entries()) {
-            if (now >= e.expiresAt) this.map.delete(k);
+            if (now >= e.expiresAt) this.remove(k);
         }
     }
+
+    private remove(sessionId: string): void {
+        const ownerKey = this.map.get(sessionId)?.value.ownerKey;
+        this.map.delete(sessionId);
+        if (ownerKey !== undefined) this.unindex(ownerKey, sessionId);
+    }
+
+    private unindex(ownerKey: string, sessionId: string): void {
+        const ids = this.owners.get(ownerKey);
+        if (!ids) return;
+        ids.delete(sessionId);
+        if (ids.size === 0) this.owners.delete(ownerKey);
+    }
 }
@@ -0,0 +1,34 @@
+/**
+ * Persistent-login ("remember me") series. The cookie holds `<seriesId>.<token>`; only a hash
+ * of the current token is stored, and the token changes every time the series is used.
+ */
+export type RememberMeSeries<TPayload> = {
+  payload: TPayload; // payload snapshot taken at sign-in, used for every session minted from the series
+  tokenHash: string;
+  previousTokenHash?: string; // accepted briefly after a rotation so concurrent requests are not flagged as theft
+  rotatedAt?: number;
+  sessions?: RememberedSession[]; // live sessions minted from the series, newest last
+  createdAt: number; // original sign-in, kept as `authenticatedAt` of minted sessions
+  expiresAt: number;
+  ownerKey?: string;
+};
+
+/**
+ * Session minted from a remember-me series, revoked with the series when its token is reused.
+ * When the session store hashes IDs at rest, `key` is the hashed ID (`hashed: true`), so a leaked
+ * series never yields a usable session ID.
+ */
+export type RememberedSession = { key: string; hashed?: true; expiresAt: number };
+
+/**
+ * Storage abstraction for remember-me series, keyed by series ID.
+ *
+ * `deleteByOwner` backs `SessionKit.revokeAllFor`, which also forgets the owner's series.
+ */
+export interface RememberMeStore<TPayload> {
+  get(seriesId: string): Promise<RememberMeSeries<TPayload> | null>;
+  set(seriesId: string, value: RememberMeSeries<TPayload>, ttlSeconds: number): Promise<void>;
+  del(seriesId: string): Promise<void>;
+  deleteByOwner?(ownerKey: string): Promise<number>;
+  close?(): Promise<void>;
+}
@@ -1,3 +1,15 @@
+import type { HttpContext } from "../http/HttpContext";
+
+/**
+ * Real actor behind an impersonation session.
+ */
+export type Impersonator<TPayload> = {
+  payload: TPayload;
+  sessionId: string; // actor's own session, restored by SessionKit.stopImpersonating()
+  startedAt: number;
+  endsAt: number; // impersonation cap; the session is never renewed past it
+};
+
 /**
  * Persisted session record stored by a {@link SessionStore}.
  */
@@ -5,15 +17,88 @@ export type StoredSession<TPayload> = {
   payload: TPayload;
   createdAt: number;
   expiresAt: number;
+  lastSeenAt?: number; // last request activity, written at most every `touchEverySeconds`
+  ownerKey?: string; // principal the session belongs to, used by owner indexing
+  csrfToken?: string; // synchronizer token issued by SessionKit.csrf()
+  rotatedAt?: number; // last ID rotation, used by periodic rotation
+  rotatedTo?: string; // set on a superseded ID kept alive for the rotation grace window
+  fingerprint?: string; // client fingerprint hash captured at sign-in
+  authenticatedAt?: number; // last sign-in or re-authentication, used by requireRecentAuth
+  authLevel?: number; // strength of that authentication, e.g. 1 = password, 2 = MFA
+  authMethod?: string; // how the user authenticated, e.g. "password", "webauthn"
+  state?: string; // pending login step such as "pending_mfa", or "guest"; omitted once fully authenticated
+  guest?: unknown; // data of a "guest" session, which has no payload of its own
+  impersonator?: Impersonator<TPayload>; // set while an admin acts as `payload`
+  version?: number; // write counter bumped by SessionKit on every rewrite, checked by compareAndSet
+};
+
+/**
+ * One entry of session data (see `SessionKit.data()`). Values must be JSON-serializable.
+ */
+export type SessionDataValue = {
+  value: unknown;
+  flash?: boolean; // read-once value, deleted at the end of the request that reads it
+};
+
+/**
+ * Changes to a session's data, applied by `SessionStore.patchData`.
+ */
+export type SessionDataPatch = {
+  set: Record<string, SessionDataValue>;
+  delete: string[];
+};
+
+/**
+ * Session entry returned by owner-indexed listing.
+ */
+export type OwnedSession<TPayload> = {
+  sessionId: string;
+  session: StoredSession<TPayload>;
 };
 
 /**
  * Storage abstraction for session lifecycle operations.
+ *
+ * `listByOwner` and `deleteByOwner` are an optional indexing extension keyed by
+ * `StoredSession.ownerKey`; they back `SessionKit.listSessionsFor` and `SessionKit.revokeAllFor`.
+ * Stores that hash IDs at rest report hashed IDs from `listByOwner` and implement `hashId`,
+ * `hashIds` and `delByHash` so those entries can still be matched and deleted.
+ * `compareAndSet` enables optimistic concurrency: SessionKit uses it for every rewrite of an
+ * existing session so concurrent requests cannot silently overwrite each other.
+ * `getData` and `patchData` keep per-key session data apart from the record; it must share the
+ * session's lifetime (every `set`, `compareAndSet` and `touch` renews it) and go away on `del`.
+ * Stores that keep sessions on the client implement `forRequest`; SessionKit then performs every
+ * request's operations on the view it returns (see CookieSessionStore).
  */
 export interface SessionStore<TPayload> {
   get(sessionId: string): Promise<StoredSession<TPayload> | null>;
   set(sessionId: string, value: StoredSession<TPayload>, ttlSeconds: number): Promise<void>;
   del(sessionId: string): Promise<void>;
+  /** Extends the TTL and records activity (`expiresAt` and `lastSeenAt`). */
   touch?(sessionId: string, ttlSeconds: number): Promise<void>;
+  /**
+   * Writes `value` only if the stored session's `version` (absent counts as 0) still equals
+   * `expectedVersion`. Resolves `false` when it changed or the session no longer exists.
+   */
+  compareAndSet?(
+    sessionId: string,
+    expectedVersion: number,
+    value: StoredSession<TPayload>,
+    ttlSeconds: number,
+  ): Promise<boolean>;
+  /** Key a session is filed under, for stores that hash IDs at rest (see HashedSessionStore). */
+  hashId?(sessionId: string): string;
+  /** Every key a session may still be filed under, `hashId` first (e.g. during secret rotation). */
+  hashIds?(sessionId: string): string[];
+  /** Deletes a session by a hashed ID, as reported by `listByOwner` of such stores. */
+  delByHash?(hashedId: string): Promise<void>;
+  /** Data stored for the session; empty when it has none. */
+  getData?(sessionId: string): Promise<Record<string, SessionDataValue>>;
+  /** Applies `patch` to the session's data, expiring it after `ttlSeconds`. */
+  patchData?(sessionId: string, patch: SessionDataPatch, ttlSeconds: number): Promise<void>;
+  listByOwner?(ownerKey: string): Promise<OwnedSession<TPayload>[]>;
+  deleteByOwner?(ownerKey: string): Promise<number>;
+  /** Request-scoped view of the store, for stores that read and write the request's cookies. */
+  forRequest?(ctx: HttpContext): SessionStore<TPayload>;
   close?(): Promise<void>;
 }
@@ -0,0 +1,128 @@
+import { isSessionKitError, type Logger } from "../errors";
+import type {
+    SessionTelemetry,
+    TelemetryAttributes,
+    TelemetryCounter,
+    TelemetryHistogram,
+    TelemetrySpan,
+} from "./SessionTelemetry";
+
+/**
+ * Subset of `Span` from `@opentelemetry/api` used by SessionKit.
+ */
+export type OtelSpanLike = {
+    setAttribute(key: string, value: string | number | boolean): unknown;
+    recordException(exception: Error): void;
+    setStatus(status: { code: number; message?: string }): unknown;
+    end(): void;
+};
+
+/**
+ * Subset of `Tracer` from `@opentelemetry/api`, e.g. `trace.getTracer("sessionkit")`.
+ */
+export type OtelTracerLike = {
+    startActiveSpan(
+        name: string,
+        options: { attributes?: TelemetryAttributes },
+        fn: (span: OtelSpanLike) => Promise<unknown>
+    ): Promise<unknown>;
+};
+
+/**
+ * Subset of `Meter` from `@opentelemetry/api`, e.g. `metrics.getMeter("sessionkit")`.
+ */
+export type OtelMeterLike = {
+    createCounter(
+        name: string,
+        options?: { description?: string; unit?: string }
+    ): { add(value: number, attributes?: TelemetryAttributes): void };
+    createHistogram(
+        name: string,
+        options?: { description?: string; unit?: string }
+    ): { record(value: number, attributes?: TelemetryAttributes): void };
+};
+
+/**
+ * Options for {@link OpenTelemetryInstrumentation}. Both `tracer` and `meter` are optional.
+ */
+export type OpenTelemetryOptions = {
+    tracer?: OtelTracerLike;
+    meter?: OtelMeterLike;
+    logger?: Logger; // receives metric recording failures
+};
+
+const SPAN_STATUS_ERROR = 2; // SpanStatusCode.ERROR
+
+const COUNTERS: Record<TelemetryCounter, string> = {
+    "sessionkit.sign_ins": "Sessions created by signIn.",
+    "sessionkit.resolutions": "Session resolutions by outcome.",
+    "sessionkit.touches": "Session renewals and activity writes.",
+    "sessionkit.token.refreshes": "Token refresh attempts by outcome.",
+    "sessionkit.store.errors": "Failed session store calls.",
+};
+
+const HISTOGRAMS: Record<TelemetryHistogram, string> = {
+    "sessionkit.resolve.duration": "Time spent resolving the request session.",
+    "sessionkit.lock.wait": "Time spent waiting to acquire a lock.",
+};
+
+/**
+ * {@link SessionTelemetry} backed by an OpenTelemetry tracer and meter. The objects are typed
+ * structurally, so SessionKit does not depend on `@opentelemetry/api` itself.
+ *
+ * Failed spans carry `sessionkit.error_code` when the error is a `SessionKitError`.
+ */
+export class OpenTelemetryInstrumentation implements SessionTelemetry {
+    private readonly counters = new Map<TelemetryCounter, ReturnType<OtelMeterLike["createCounter"]>>();
+    private readonly histograms = new Map<TelemetryHistogram, ReturnType<OtelMeterLike["createHistogram"]>>();
+
+    constructor(private readonly options: OpenTelemetryOptions) {
+        const meter = options.meter;
+        if (!meter) return;
+
+        for (const [name, description] of Object.entries(COUNTERS) as [TelemetryCounter, string][]) {
+            this.counters.set(name, meter.createCounter(name, { description }));
+        }
+        for (const [name, description] of Object.entries(HISTOGRAMS) as [TelemetryHistogram, string][]) {
+            this.histograms.set(name, meter.createHistogram(name, { description, unit: "ms" }));
+        }
+    }
+
+    async trace<T>(name: TelemetrySpan, fn: () => Promise<T>, attributes?: TelemetryAttributes): Promise<T> {
+        const tracer = this.options.tracer;
+        if (!tracer) {
+            return fn();
+        }
+
+        return (await tracer.startActiveSpan(name, attributes ? { attributes } : {}, async (span) => {
+            try {
+                return await fn();
+            } catch (error) {
+                if (isSessionKitError(error)) {
+                    span.setAttribute("sessionkit.error_code", error.code);
+                }
+                span.recordException(error instanceof Error ? error : new Error(String(error)));
+                span.setStatus({ code: SPAN_STATUS_ERROR, message: error instanceof Error ? error.message : String(error) });
+                throw error;
+            } finally {
+                span.end();
+            }
+        })) as T;
+    }
+
+    increment(name: TelemetryCounter, attributes?: TelemetryAttributes): void {
+        try {
+            this.counters.get(name)?.add(1, attributes);
+        } catch (error) {
+            this.options.logger?.warn("Failed to record metric.", { name, error });
+        }
+    }
+
+    record(name: TelemetryHistogram, value: number, attributes?: TelemetryAttributes): void {
+        try {
+            this.histograms.get(name)?.record(value, attributes);
+        } catch (error) {
+            this.options.logger?.warn("Failed to record metric.", { name, error });
+        }
+    }
+}
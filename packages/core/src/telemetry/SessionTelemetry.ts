@@ -0,0 +1,152 @@
+import type { HttpContext } from "../http/HttpContext";
+import type { OwnedSession, SessionDataPatch, SessionStore, StoredSession } from "../store/SessionStore";
+import type { LockProvider } from "../session/LockProvider";
+
+export type TelemetryAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Span names produced by SessionKit. Store spans are `sessionkit.store.<method>`.
+ */
+export type TelemetrySpan =
+    | "sessionkit.resolve"
+    | "sessionkit.lock"
+    | "sessionkit.token.refresh"
+    | `sessionkit.store.${string}`;
+
+/**
+ * Counters produced by SessionKit.
+ *
+ * - `sessionkit.sign_ins`: attribute `state`
+ * - `sessionkit.resolutions`: attribute `outcome` ({@link ResolutionOutcome})
+ * - `sessionkit.touches`: attribute `reason` (`renewal` or `activity`)
+ * - `sessionkit.token.refreshes`: attribute `outcome` (`success` or `failure`)
+ * - `sessionkit.store.errors`: attribute `operation`
+ */
+export type TelemetryCounter =
+    | "sessionkit.sign_ins"
+    | "sessionkit.resolutions"
+    | "sessionkit.touches"
+    | "sessionkit.token.refreshes"
+    | "sessionkit.store.errors";
+
+/**
+ * Histograms produced by SessionKit, in milliseconds.
+ */
+export type TelemetryHistogram = "sessionkit.resolve.duration" | "sessionkit.lock.wait";
+
+/**
+ * How the middleware resolved a request's session.
+ */
+export type ResolutionOutcome =
+    | "authenticated"
+    | "remembered"
+    | "pending"
+    | "guest"
+    | "anonymous"
+    | "not_found"
+    | "expired"
+    | "idle_timeout"
+    | "invalid_signature"
+    | "invalid_id"
+    | "invalid_payload"
+    | "fingerprint_mismatch"
+    | "refresh_failed";
+
+/**
+ * Instrumentation sink passed as `SessionKitOptions.telemetry`; see {@link OpenTelemetryInstrumentation}.
+ */
+export interface SessionTelemetry {
+    trace<T>(name: TelemetrySpan, fn: () => Promise<T>, attributes?: TelemetryAttributes): Promise<T>;
+    increment(name: TelemetryCounter, attributes?: TelemetryAttributes): void;
+    record(name: TelemetryHistogram, value: number, attributes?: TelemetryAttributes): void;
+}
+
+/**
+ * Wraps a store so every call runs in a `sessionkit.store.<method>` span and failures are counted.
+ */
+export function instrumentStore<TPayload>(store: SessionStore<TPayload>, telemetry: SessionTelemetry): SessionStore<TPayload> {
+    const call = <T>(operation: string, fn: () => Promise<T>): Promise<T> =>
+        telemetry.trace(`sessionkit.store.${operation}`, async () => {
+            try {
+                return await fn();
+            } catch (error) {
+                telemetry.increment("sessionkit.store.errors", { operation });
+                throw error;
+            }
+        });
+
+    const touch = store.touch?.bind(store);
+    const compareAndSet = store.compareAndSet?.bind(store);
+    const hashId = store.hashId?.bind(store);
+    const hashIds = store.hashIds?.bind(store);
+    const delByHash = store.delByHash?.bind(store);
+    const getData = store.getData?.bind(store);
+    const patchData = store.patchData?.bind(store);
+    const listByOwner = store.listByOwner?.bind(store);
+    const deleteByOwner = store.deleteByOwner?.bind(store);
+    const forRequest = store.forRequest?.bind(store);
+    const close = store.close?.bind(store);
+
+    return {
+        get: (sessionId: string) => call("get", () => store.get(sessionId)),
+        set: (sessionId: string, value: StoredSession<TPayload>, ttlSeconds: number) =>
+            call("set", () => store.set(sessionId, value, ttlSeconds)),
+        del: (sessionId: string) => call("del", () => store.del(sessionId)),
+        ...(touch
+            ? { touch: (sessionId: string, ttlSeconds: number) => call("touch", () => touch(sessionId, ttlSeconds)) }
+            : {}),
+        ...(compareAndSet
+            ? {
+                  compareAndSet: (
+                      sessionId: string,
+                      expectedVersion: number,
+                      value: StoredSession<TPayload>,
+                      ttlSeconds: number
+                  ) => call("compareAndSet", () => compareAndSet(sessionId, expectedVersion, value, ttlSeconds)),
+              }
+            : {}),
+        ...(hashId ? { hashId } : {}),
+        ...(hashIds ? { hashIds } : {}),
+        ...(delByHash ? { delByHash: (hashedId: string) => call("delByHash", () => delByHash(hashedId)) } : {}),
+        ...(getData ? { getData: (sessionId: string) => call("getData", () => getData(sessionId)) } : {}),
+        ...(patchData
+            ? {
+                  patchData: (sessionId: string, patch: SessionDataPatch, ttlSeconds: number) =>
+                      call("patchData", () => patchData(sessionId, patch, ttlSeconds)),
+              }
+            : {}),
+        ...(listByOwner
+            ? {
+                  listByOwner: (ownerKey: string): Promise<OwnedSession<TPayload>[]> =>
+                      call("listByOwner", () => listByOwner(ownerKey)),
+              }
+            : {}),
+        ...(deleteByOwner
+            ? { deleteByOwner: (ownerKey: string) => call("deleteByOwner", () => deleteByOwner(ownerKey)) }
+            : {}),
+        ...(forRequest ? { forRequest: (ctx: HttpContext) => instrumentStore(forRequest(ctx), telemetry) } : {}),
+        ...(close ? { close } : {}),
+    };
+}
+
+/**
+ * Wraps a lock provider so each `withLock` runs in a `sessionkit.lock` span and the time spent
+ * waiting for the lock is recorded as `sessionkit.lock.wait`.
+ */
+export function instrumentLockProvider(lockProvider: LockProvider, telemetry: SessionTelemetry): LockProvider {
+    return {
+        withLock<T>(key: string, ttlSeconds: number, fn: () => Promise<T>): Promise<T> {
+            const requestedAt = Date.now();
+            return telemetry.trace(
+                "sessionkit.lock",
+                () =>
+                    lockProvider.withLock(key, ttlSeconds, () => {
+                        telemetry.record("sessionkit.lock.wait", Date.now() - requestedAt);
+                        return fn();
+                    }),
+                // keys embed session IDs and owner keys; only their scope is exported
+                { "sessionkit.lock.scope": key.split(":").slice(0, 2).join(":") }
+            );
+        },
+    };
+}
@@ -0,0 +1,148 @@
+import type { HttpContext } from "../http/HttpContext";
+import type { CookieOptions } from "../cookie/CookieCodec";
+import { signCookieValue, unsignCookieValue } from "../cookie/CookieSigner";
+
+/**
+ * Session ID read from a request, together with the transport that carried it.
+ * `tampered` marks a credential that was present but failed verification.
+ */
+export type TransportCredential = {
+    sessionId: string | null;
+    tampered: boolean;
+    transport: SessionTransport;
+};
+
+/**
+ * Carries the session ID between client and server.
+ *
+ * `issuesOnResponse` is true when {@link issue} delivers the ID to the client (cookies).
+ * Transports without it (bearer tokens) rely on the token returned by `signIn`/`rotate`,
+ * so SessionKit skips automatic ID rotation for their requests.
+ *
+ * `token` returns that value for transports whose credential is not the session ID itself
+ * (signed tokens); without it the token is the session ID.
+ */
+export interface SessionTransport {
+    readonly issuesOnResponse: boolean;
+    read(ctx: HttpContext): TransportCredential;
+    issue(ctx: HttpContext, sessionId: string, ttlSeconds: number): void;
+    clear(ctx: HttpContext): void;
+    token?(ctx: HttpContext, sessionId: string): string;
+}
+
+/**
+ * Cookie transport (the default). Applies `CookieOptions.signing` itself, so adapters
+ * receive plain cookie attributes.
+ */
+export class CookieTransport implements SessionTransport {
+    readonly issuesOnResponse = true;
+    private readonly cookieName: string;
+    private readonly cookieOptions: CookieOptions;
+
+    constructor(private readonly options: CookieOptions = {}) {
+        this.cookieName = options.name ?? "sid";
+        const { signing: _signing, ...cookieOptions } = options;
+        this.cookieOptions = cookieOptions;
+    }
+
+    read(ctx: HttpContext): TransportCredential {
+        const raw = ctx.getCookie(this.cookieName);
+        const signing = this.options.signing;
+        if (!raw || !signing) {
+            return { sessionId: raw, tampered: false, transport: this };
+        }
+
+        const sessionId = unsignCookieValue(raw, signing);
+        return { sessionId, tampered: sessionId === null, transport: this };
+    }
+
+    issue(ctx: HttpContext, sessionId: string, ttlSeconds: number): void {
+        const signing = this.options.signing;
+        const value = signing ? signCookieValue(sessionId, signing) : sessionId;
+        const maxAgeSeconds = this.cookieOptions.maxAgeSeconds ?? ttlSeconds;
+        ctx.setCookie(this.cookieName, value, { ...this.cookieOptions, maxAgeSeconds });
+    }
+
+    clear(ctx: HttpContext): void {
+        ctx.clearCookie(this.cookieName, this.cookieOptions);
+    }
+}
+
+/**
+ * Options for {@link BearerTransport}.
+ */
+export type BearerTransportOptions = {
+    headerName?: string; // default "authorization"
+    scheme?: string; // default "Bearer"
+};
+
+/**
+ * `Authorization: Bearer <sid>` transport for clients without cookies (mobile apps, CLIs).
+ * The token is handed out by `signIn`/`rotate`; the transport never writes to the response.
+ */
+export class BearerTransport implements SessionTransport {
+    readonly issuesOnResponse = false;
+    private readonly headerName: string;
+    private readonly scheme: string;
+
+    constructor(options?: BearerTransportOptions) {
+        this.headerName = options?.headerName ?? "authorization";
+        this.scheme = (options?.scheme ?? "Bearer").toLowerCase();
+    }
+
+    read(ctx: HttpContext): TransportCredential {
+        const header = ctx.getHeader(this.headerName)?.trim();
+        if (!header) {
+            return { sessionId: null, tampered: false, transport: this };
+        }
+
+        const idx = header.indexOf(" ");
+        if (idx < 0 || header.slice(0, idx).toLowerCase() !== this.scheme) {
+            return { sessionId: null, tampered: false, transport: this };
+        }
+        const token = header.slice(idx + 1).trim();
+        return { sessionId: token || null, tampered: false, transport: this };
+    }
+
+    issue(): void {
+        // the client receives the token from SignInResult / RotateResult
+    }
+
+    clear(): void {
+        // nothing to clear; the client discards its token
+    }
+}
+
+/**
+ * Tries each transport in order and uses the first one that carries a credential.
+ * Issuing and clearing without a request credential go through the first transport.
+ */
+export class CombinedTransport implements SessionTransport {
+    readonly issuesOnResponse: boolean;
+
+    constructor(private readonly transports: [SessionTransport, ...SessionTransport[]]) {
+        this.issuesOnResponse = transports[0].issuesOnResponse;
+    }
+
+    read(ctx: HttpContext): TransportCredential {
+        for (const transport of this.transports) {
+            const credential = transport.read(ctx);
+            if (credential.sessionId || credential.tampered) {
+                return credential;
+            }
+        }
+        return { sessionId: null, tampered: false, transport: this.transports[0] };
+    }
+
+    issue(ctx: HttpContext, sessionId: string, ttlSeconds: number): void {
+        this.transports[0].issue(ctx, sessionId, ttlSeconds);
+    }
+
+    clear(ctx: HttpContext): void {
+        this.transports[0].clear(ctx);
+    }
+
+    token(ctx: HttpContext, sessionId: string): string {
+        return this.transports[0].token?.(ctx, sessionId) ?? sessionId;
+    }
+}
@@ -1,37 +1,83 @@
 import type {CookieOptions} from "./cookie/CookieCodec";
-import type {SessionStore, StoredSession} from "./store/SessionStore";
+import type {Impersonator, OwnedSession, SessionStore, StoredSession} from "./store/SessionStore";
 import type {HttpContext, HttpMiddleware} from "./http/HttpContext";
-import type {ErrorCode, Logger} from "./errors";
+import type {Logger} from "./errors";
 import type {LockProvider} from "./session/LockProvider";
+import type {FingerprintOptions} from "./session/Fingerprint";
+import type {SessionTransport} from "./transport/SessionTransport";
+import type {SessionIdGenerator} from "./session/SessionIdGenerator";
+import type {SessionTelemetry} from "./telemetry/SessionTelemetry";
+import type {RememberMeOptions} from "./session/RememberMe";
 import { SessionKit } from "./SessionKit";
 
+/**
+ * Lifecycle state of a session. Anything other than `"authenticated"` is not `isAuthenticated`:
+ * a pending login step (e.g. `"pending_mfa"`) or an anonymous `"guest"` session.
+ */
+export type SessionState = "authenticated" | "pending_mfa" | "guest" | (string & {});
+
 /**
  * Authentication state attached to each request context.
  */
 export type AuthContext<TPayload, TPrincipal> = {
     sessionId: string | null;
-    session: StoredSession<TPayload> | null;
-    principal: TPrincipal | null;
+    session: StoredSession<TPayload> | null; // null for guest sessions, see SessionKit.getGuest()
+    principal: TPrincipal | null; // effective principal; null for pending sessions
+    actor: TPrincipal | null; // real principal while impersonating, otherwise null
     isAuthenticated: boolean;
+    state: SessionState | null; // null without a session
+    csrfToken: string | null; // issued by SessionKit.csrf()
 };
 
+/**
+ * Reason codes reported to `hooks.onInvalidSession`.
+ */
+export type InvalidSessionReason =
+    | "SESSION_NOT_FOUND"
+    | "INVALID_PAYLOAD"
+    | "INVALID_SIGNATURE"
+    | "INVALID_SESSION_ID"
+    | "SESSION_EXPIRED"
+    | "IDLE_TIMEOUT"
+    | "FINGERPRINT_MISMATCH"
+    | "TOKEN_REFRESH_FAILED"
+    | "REMEMBER_ME_REUSED";
+
 /**
  * Root configuration for creating a {@link SessionKit} instance.
  */
-export type SessionKitOptions<TPayload, TPrincipal> = {
+export type SessionKitOptions<TPayload, TPrincipal, TGuest = unknown> = {
     store: SessionStore<TPayload>;
 
     cookie?: CookieOptions;
 
+    transport?: "cookie" | "header" | "both" | SessionTransport; // default "cookie"
+
+    sessionIdGenerator?: "uuid" | "base64url" | SessionIdGenerator; // default: UUIDs, any URL-safe ID accepted
+
     session: {
         ttlSeconds: number;
         rolling?: boolean;          // default false
-        touchEverySeconds?: number; // default 60
+        touchEverySeconds?: number; // default 60, min interval between lastSeenAt writes (idle timeout or LRU eviction only), capped at idleTimeoutSeconds / 2
+        idleTimeoutSeconds?: number; // default disabled
         renewBeforeSeconds?: number; // default 60
+        absoluteTtlSeconds?: number; // max lifetime from createdAt, default unlimited
+        rotateEverySeconds?: number; // default disabled
+        rotationGraceSeconds?: number; // default 30
+        maxPerOwner?: number; // default unlimited, requires ownerKey and an owner-indexed store
+        maxPerOwnerPolicy?: "evict-oldest" | "evict-lru" | "reject"; // default "evict-oldest"
+        pendingTtlSeconds?: number; // TTL of pending (e.g. MFA) sessions, default 300
+        impersonationTtlSeconds?: number; // max impersonation duration, default 3600
     };
 
     principalFactory: (payload: TPayload) => TPrincipal;
 
+    permissions?: (principal: TPrincipal) => readonly string[]; // used by requirePermissions
+
+    ownerKey?: (payload: TPayload) => string; // enables per-owner session indexing
+
+    fingerprint?: FingerprintOptions; // binds sessions to the client that signed in
+
     payloadTransformer?: (raw: unknown) => TPayload;
 
     token?: {
@@ -43,14 +89,26 @@ export type SessionKitOptions<TPayload, TPrincipal> = {
         onRefreshFail?: "unauth" | "revoke";
     };
 
+    rememberMe?: RememberMeOptions<TPayload>; // persistent login, requested per signIn
+
+    guest?: {
+        ttlSeconds: number; // lifetime of a guest session, renewed on every updateGuest
+        merge?: (guest: TGuest, payload: TPayload) => TPayload | Promise<TPayload>; // carries guest data into signIn
+    };
+
     lockProvider?: LockProvider;
 
     hooks?: {
         onUnauthorized?: (ctx: HttpContext) => Promise<void> | void;
-        onInvalidSession?: (ctx: HttpContext, reason: ErrorCode | string) => Promise<void> | void;
+        onForbidden?: (ctx: HttpContext) => Promise<void> | void;
+        onInvalidSession?: (ctx: HttpContext, reason: InvalidSessionReason) => Promise<void> | void;
+        onSessionEvicted?: (ctx: HttpContext, evicted: OwnedSession<TPayload>) => Promise<void> | void;
+        onImpersonation?: (ctx: HttpContext, event: ImpersonationEvent<TPayload>) => Promise<void> | void;
     };
 
     logger?: Logger;
+
+    telemetry?: SessionTelemetry; // e.g. new OpenTelemetryInstrumentation({ tracer, meter })
 };
 
 /**
@@ -58,6 +116,53 @@ export type SessionKitOptions<TPayload, TPrincipal> = {
  */
 export type RequireAuthOptions = {
     onFail?: (ctx: HttpContext) => Promise<void> | void;
+    allowStates?: SessionState[]; // pending states let through, e.g. ["pending_mfa"] on MFA routes
+};
+
+/**
+ * Options for {@link SessionKit.requirePrincipal}.
+ */
+export type RequirePrincipalOptions = Pick<RequireAuthOptions, "onFail"> & {
+    onForbidden?: (ctx: HttpContext) => Promise<void> | void;
+    forbidImpersonation?: boolean; // default false; true rejects impersonation sessions with FORBIDDEN
+};
+
+/**
+ * Options for {@link SessionKit.requirePermissions}.
+ */
+export type RequirePermissionsOptions = RequirePrincipalOptions & {
+    match?: "all" | "any"; // default "all"
+};
+
+/**
+ * Options for {@link SessionKit.requireRecentAuth}.
+ */
+export type RequireRecentAuthOptions = Pick<RequireAuthOptions, "onFail"> & {
+    maxAgeSeconds?: number; // max age of the last (re-)authentication, default unlimited
+    minLevel?: number; // minimum authLevel, default 1
+    onReauthRequired?: (ctx: HttpContext) => Promise<void> | void;
+};
+
+/**
+ * Options for {@link SessionKit.markReauthenticated}.
+ */
+export type ReauthenticateOptions = {
+    method?: string; // e.g. "password", "totp", "webauthn"
+};
+
+/**
+ * Predicate evaluated by {@link SessionKit.requirePrincipal}.
+ */
+export type PrincipalPredicate<TPrincipal> = (principal: TPrincipal, ctx: HttpContext) => boolean | Promise<boolean>;
+
+/**
+ * Options for {@link SessionKit.csrf}.
+ */
+export type CsrfOptions = {
+    headerName?: string; // default "x-csrf-token"
+    fieldName?: string; // default "_csrf"
+    safeMethods?: string[]; // default ["GET", "HEAD", "OPTIONS", "TRACE"]
+    onFail?: (ctx: HttpContext) => Promise<void> | void;
 };
 
 /**
@@ -66,6 +171,39 @@ export type RequireAuthOptions = {
 export type SignInOptions = {
     ttlSeconds?: number;
     hydrateContext?: boolean; // default true
+    setCookie?: boolean; // default true; false only returns the token (bearer clients)
+    authLevel?: number; // default 1
+    authMethod?: string; // e.g. "password", "oauth"
+    state?: SessionState; // default "authenticated"; other states except "guest" create a pending session
+    rememberMe?: boolean; // default false; requires `rememberMe` options and an authenticated state
+};
+
+/**
+ * Options for {@link SessionKit.impersonate}.
+ */
+export type ImpersonateOptions = {
+    ttlSeconds?: number; // default and max session.impersonationTtlSeconds
+};
+
+/**
+ * Audit event reported to `hooks.onImpersonation`.
+ */
+export type ImpersonationEvent<TPayload> = {
+    type: "start" | "stop";
+    actor: TPayload;
+    target: TPayload;
+    sessionId: string; // impersonation session
+    actorSessionId: string;
+};
+
+/**
+ * Options for {@link SessionKit.upgrade}.
+ */
+export type UpgradeOptions = {
+    ttlSeconds?: number; // default session.ttlSeconds
+    authLevel?: number; // default 1
+    authMethod?: string; // e.g. "totp", "webauthn"
+    rememberMe?: boolean; // default false; requires `rememberMe` options
 };
 
 /**
@@ -73,10 +211,35 @@ export type SignInOptions = {
  */
 export type SignInResult<TPrincipal> = {
     sessionId: string;
+    token: string; // value for `Authorization: Bearer <token>`
     principal: TPrincipal;
     expiresAt: number;
 };
 
+/**
+ * Options for {@link SessionKit.rotate}.
+ */
+export type RotateOptions = {
+    graceSeconds?: number; // default 0 (old ID is deleted immediately)
+};
+
+/**
+ * Result returned by {@link SessionKit.rotate}.
+ */
+export type RotateResult = {
+    sessionId: string;
+    token: string; // new bearer token
+    previousSessionId: string;
+    expiresAt: number;
+};
+
+/**
+ * Options for {@link SessionKit.revokeAllFor}.
+ */
+export type RevokeAllOptions = {
+    exceptSessionId?: string; // e.g. keep the current session on "log out other devices"
+};
+
 /**
  * Options for {@link SessionKit.signOut}.
  */
@@ -85,4 +248,4 @@ export type SignOutOptions = {
 };
 
 // Re-export commonly used types
-export type {CookieOptions, SessionStore, StoredSession, HttpContext, HttpMiddleware};
+export type {CookieOptions, Impersonator, OwnedSession, SessionStore, StoredSession, HttpContext, HttpMiddleware};
@@ -0,0 +1,122 @@
+import {
+    createHmac,
+    createPrivateKey,
+    createPublicKey,
+    sign,
+    verify,
+    type JsonWebKey,
+    type KeyObject,
+} from "crypto";
+import { safeEqual } from "./token";
+
+export type JwtAlgorithm = "HS256" | "ES256" | "EdDSA";
+
+/**
+ * JWK with the `kid` tokens name it by and the algorithm it is used with: `oct` keys for HS256,
+ * P-256 `EC` keys for ES256, Ed25519 `OKP` keys for EdDSA. Public-only EC/OKP keys just verify.
+ */
+export type JwtKey = JsonWebKey & { kid: string; alg: JwtAlgorithm };
+
+export type JwtClaims = Record<string, unknown>;
+
+type ImportedKey =
+    | { kid: string; alg: "HS256"; secret: Buffer }
+    | { kid: string; alg: "ES256" | "EdDSA"; publicKey: KeyObject; privateKey?: KeyObject };
+
+function importKey(jwk: JwtKey): ImportedKey {
+    const { kid } = jwk;
+    const alg = jwk.alg;
+    if (alg === "HS256") {
+        if (jwk.kty !== "oct" || typeof jwk.k !== "string") {
+            throw new Error(`JWT key "${kid}": HS256 requires an "oct" key.`);
+        }
+        return { kid, alg, secret: Buffer.from(jwk.k, "base64url") };
+    }
+
+    const expected = alg === "ES256" ? { kty: "EC", crv: "P-256" } : { kty: "OKP", crv: "Ed25519" };
+    if (jwk.kty !== expected.kty || jwk.crv !== expected.crv) {
+        throw new Error(`JWT key "${kid}": ${alg} requires a ${expected.kty} ${expected.crv} key.`);
+    }
+    const { kid: _kid, alg: _alg, ...key } = jwk;
+    return {
+        kid,
+        alg,
+        publicKey: createPublicKey({ key, format: "jwk" }),
+        ...(key.d !== undefined ? { privateKey: createPrivateKey({ key, format: "jwk" }) } : {}),
+    };
+}
+
+function encodeSegment(value: unknown): string {
+    return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function decodeSegment(segment: string): Record<string, unknown> | null {
+    try {
+        const value: unknown = JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+        return value && typeof value === "object" ? (value as Record<string, unknown>) : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * JWKS-style key ring. Tokens are signed with the first key that can sign and verified with
+ * the key their `kid` names, so keys rotate by prepending a new one and dropping the old one
+ * once its tokens have expired.
+ */
+export class JwtKeySet {
+    private readonly keys: ImportedKey[];
+
+    constructor(keys: JwtKey[]) {
+        this.keys = keys.map(importKey);
+        if (this.keys.length === 0) {
+            throw new Error("A JWT key set requires at least one key.");
+        }
+    }
+
+    sign(claims: JwtClaims): string {
+        const key = this.keys.find((k) => "secret" in k || k.privateKey);
+        if (!key) {
+            throw new Error("The JWT key set has no signing key.");
+        }
+
+        const input = `${encodeSegment({ alg: key.alg, typ: "JWT", kid: key.kid })}.${encodeSegment(claims)}`;
+        if ("secret" in key) {
+            return `${input}.${hmac(key.secret, input)}`;
+        }
+        const signature = sign(key.alg === "ES256" ? "sha256" : null, Buffer.from(input), {
+            key: key.privateKey as KeyObject,
+            dsaEncoding: "ieee-p1363",
+        });
+        return `${input}.${signature.toString("base64url")}`;
+    }
+
+    /**
+     * Returns the claims of a token whose signature checks out, or null. Time claims are not checked.
+     */
+    verify(token: string): JwtClaims | null {
+        const [headerSegment, claimsSegment, signature, ...rest] = token.split(".");
+        if (!headerSegment || !claimsSegment || !signature || rest.length > 0) return null;
+
+        const header = decodeSegment(headerSegment);
+        // the key decides the algorithm, never the token, so "none" or HS256-with-a-public-key cannot slip through
+        const key = this.keys.find((k) => k.kid === header?.kid);
+        if (!key || header?.alg !== key.alg) return null;
+
+        const input = `${headerSegment}.${claimsSegment}`;
+        const valid =
+            "secret" in key
+                ? safeEqual(hmac(key.secret, input), signature)
+                : verify(
+                      key.alg === "ES256" ? "sha256" : null,
+                      Buffer.from(input),
+                      { key: key.publicKey, dsaEncoding: "ieee-p1363" },
+                      Buffer.from(signature, "base64url")
+                  );
+        return valid ? decodeSegment(claimsSegment) : null;
+    }
+}
+
+function hmac(secret: Buffer, input: string): string {
+    return createHmac("sha256", secret).update(input).digest("base64url");
+}
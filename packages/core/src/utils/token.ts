@@ -0,0 +1,11 @@
+import { randomBytes, timingSafeEqual } from "crypto";
+
+export function randomToken(bytes = 32): string {
+    return randomBytes(bytes).toString("base64url");
+}
+
+export function safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+}
@@ -1,9 +1,13 @@
+import { generateKeyPairSync, randomBytes } from "crypto";
 import { describe, expect, it } from "vitest";
 import { SessionKit } from "../src";
-import { MapSessionStore } from "../src";
-import type { HttpContext } from "../src";
-import type { SessionStore, StoredSession } from "../src";
+import { CookieSessionStore, HashedSessionStore, JwtSessionStore, MapRememberMeStore, MapSessionStore } from "../src";
+import { Base64UrlSessionIdGenerator, PrefixedSessionIdGenerator } from "../src";
+import type { HttpContext, JwtKey } from "../src";
+import type { SessionState, SessionStore, StoredSession } from "../src";
 import { SessionKitError } from "../src";
+import { ipSubnet, parseCookieHeader, resolveClientIp, serializeSetCookie } from "../src";
+import { OpenTelemetryInstrumentation, type OtelMeterLike, type OtelTracerLike } from "../src";
 
 type CookieRecord = {
   name: string;
@@ -15,10 +19,20 @@ class FakeHttpContext implements HttpContext {
   private readonly requestCookies: Map<string, string>;
   readonly setCookies: CookieRecord[] = [];
   readonly clearedCookies: string[] = [];
+  readonly responseHeaders = new Map<string, string>();
   responseStatus = 200;
   responseBody: unknown = null;
 
-  constructor(private readonly jar: Map<string, string>) {
+  constructor(
+    private readonly jar: Map<string, string>,
+    private readonly request: {
+      method?: string;
+      url?: string;
+      headers?: Record<string, string>;
+      form?: Record<string, string>;
+      ip?: string;
+    } = {},
+  ) {
     this.requestCookies = new Map(jar);
   }
 
@@ -26,6 +40,34 @@ class FakeHttpContext implements HttpContext {
     return this.requestCookies.get(name) ?? null;
   }
 
+  getMethod(): string {
+    return this.request.method ?? "GET";
+  }
+
+  getUrl(): string {
+    return this.request.url ?? "/";
+  }
+
+  getPath(): string {
+    return this.getUrl().split("?")[0] as string;
+  }
+
+  getHeader(name: string): string | null {
+    return this.request.headers?.[name.toLowerCase()] ?? null;
+  }
+
+  getClientIp(): string | null {
+    return this.request.ip ?? null;
+  }
+
+  getUserAgent(): string | null {
+    return this.getHeader("user-agent");
+  }
+
+  async getFormField(name: string): Promise<string | null> {
+    return this.request.form?.[name] ?? null;
+  }
+
   setCookie(name: string, value: string): void {
     this.jar.set(name, value);
     this.setCookies.push({ name, value });
@@ -44,6 +86,10 @@ class FakeHttpContext implements HttpContext {
     return (this.auth as T | null) ?? null;
   }
 
+  setHeader(name: string, value: string): void {
+    this.responseHeaders.set(name.toLowerCase(), value);
+  }
+
   status(code: number): void {
     this.responseStatus = code;
   }
@@ -177,6 +223,420 @@ describe("SessionKit", () => {
     });
   });
 
+  it("requirePrincipal_and_requirePermissions_reject_with_FORBIDDEN", async () => {
+    type Payload = { userId: string; role: string; permissions: string[] };
+    type Principal = { userId: string; role: string; permissions: string[] };
+    const store = new MapSessionStore<Payload>();
+    const forbidden: string[] = [];
+    const kit = new SessionKit<Payload, Principal>({
+      store,
+      session: { ttlSeconds: 120 },
+      principalFactory: (payload) => ({ ...payload }),
+      permissions: (principal) => principal.permissions,
+      hooks: {
+        onForbidden(ctx) {
+          forbidden.push(ctx.getPath());
+          ctx.status(403);
+        },
+      },
+    });
+    const jar = new Map<string, string>();
+    await kit.signIn(new FakeHttpContext(jar), { userId: "u-editor", role: "editor", permissions: ["posts:read", "posts:write"] });
+
+    const run = async (guard: ReturnType<typeof kit.requireAuth>, path = "/") => {
+      const ctx = new FakeHttpContext(jar, { url: path });
+      await kit.middleware()(ctx, async () => Promise.resolve());
+      let passed = false;
+      await guard(ctx, async () => {
+        passed = true;
+      });
+      return passed;
+    };
+
+    expect(await run(kit.requirePrincipal((p) => p.role === "editor"))).toBe(true);
+    expect(await run(kit.requirePermissions(["posts:read", "posts:write"]))).toBe(true);
+    expect(await run(kit.requirePermissions(["posts:delete", "posts:read"], { match: "any" }))).toBe(true);
+    expect(await run(kit.requirePermissions("posts:delete"), "/posts/1")).toBe(false);
+    expect(await run(kit.requirePrincipal((p) => p.role === "admin"), "/admin")).toBe(false);
+    expect(forbidden).toEqual(["/posts/1", "/admin"]);
+
+    const strict = new SessionKit<Payload, Principal>({
+      store,
+      session: { ttlSeconds: 120 },
+      principalFactory: (payload) => ({ ...payload }),
+    });
+    const ctx = new FakeHttpContext(jar);
+    await strict.middleware()(ctx, async () => Promise.resolve());
+    await expect(strict.requirePrincipal((p) => p.role === "admin")(ctx, async () => Promise.resolve())).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+    await expect(strict.requirePrincipal(() => true)(new FakeHttpContext(new Map()), async () => Promise.resolve())).rejects.toMatchObject({
+      code: "UNAUTHORIZED",
+    });
+    expect(() => strict.requirePermissions("posts:read")).toThrow(SessionKitError);
+
+    await store.close?.();
+  });
+
+  it("requireRecentAuth_demands_step_up_until_markReauthenticated", async () => {
+    const jar = new Map<string, string>();
+    const store = new MapSessionStore<{ userId: string; refreshToken?: string }>();
+    const kit = createKit(store);
+    const next = async () => Promise.resolve();
+
+    await kit.signIn(new FakeHttpContext(jar), { userId: "u-step" }, { authMethod: "password" });
+    const sid = jar.get("sid") as string;
+    const signedIn = (await store.get(sid))!;
+    expect(signedIn).toMatchObject({ authLevel: 1, authMethod: "password", authenticatedAt: signedIn.createdAt });
+
+    // simulate a sign-in 20 minutes ago
+    await store.set(sid, { ...signedIn, authenticatedAt: Date.now() - 20 * 60_000 }, 120);
+
+    const guard = kit.requireRecentAuth({ maxAgeSeconds: 600 });
+    const mfaGuard = kit.requireRecentAuth({ maxAgeSeconds: 600, minLevel: 2 });
+    const run = async (middleware: typeof guard) => {
+      const ctx = new FakeHttpContext(jar);
+      await kit.middleware()(ctx, next);
+      return middleware(ctx, next);
+    };
+
+    await expect(run(guard)).rejects.toMatchObject({ code: "REAUTH_REQUIRED", details: { maxAgeSeconds: 600, minLevel: 1 } });
+
+    const ctx = new FakeHttpContext(jar);
+    await kit.middleware()(ctx, next);
+    await kit.markReauthenticated(ctx, 1);
+    expect(kit.getAuth(ctx).session?.authMethod).toBeUndefined();
+    await expect(run(guard)).resolves.toBeUndefined();
+    await expect(run(mfaGuard)).rejects.toMatchObject({ code: "REAUTH_REQUIRED" });
+
+    await kit.markReauthenticated(ctx, 2, { method: "totp" });
+    await expect(run(mfaGuard)).resolves.toBeUndefined();
+    expect(await store.get(sid)).toMatchObject({ authLevel: 2, authMethod: "totp" });
+
+    await expect(kit.requireRecentAuth()(new FakeHttpContext(new Map()), next)).rejects.toMatchObject({
+      code: "UNAUTHORIZED",
+    });
+
+    await store.close?.();
+  });
+
+  it("pending_mfa_session_is_not_authenticated_until_upgrade", async () => {
+    type Payload = { userId: string };
+    const store = new MapSessionStore<Payload>();
+    const kit = new SessionKit<Payload, { userId: string }>({
+      store,
+      session: { ttlSeconds: 3600, pendingTtlSeconds: 120 },
+      principalFactory: (payload) => ({ userId: payload.userId }),
+      ownerKey: (payload) => payload.userId,
+    });
+    const jar = new Map<string, string>();
+    const next = async () => Promise.resolve();
+
+    const pending = await kit.signIn(new FakeHttpContext(jar), { userId: "u-mfa" }, { state: "pending_mfa", authMethod: "password" });
+    expect(pending.expiresAt - Date.now()).toBeLessThanOrEqual(120_000);
+    expect(await store.listByOwner("u-mfa")).toHaveLength(0);
+
+    const ctx = new FakeHttpContext(jar);
+    await kit.middleware()(ctx, next);
+    expect(kit.getAuth(ctx)).toMatchObject({ isAuthenticated: false, state: "pending_mfa", principal: null });
+    expect(kit.getAuth(ctx).session?.payload.userId).toBe("u-mfa");
+    await expect(kit.requireAuth()(ctx, next)).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+    await expect(kit.requireAuth({ allowStates: ["pending_mfa"] })(ctx, next)).resolves.toBeUndefined();
+
+    const upgraded = await kit.upgrade(ctx, { authLevel: 2, authMethod: "totp" });
+    expect(upgraded.sessionId).not.toBe(pending.sessionId);
+    expect(jar.get("sid")).toBe(upgraded.sessionId);
+    expect(await store.get(pending.sessionId)).toBeNull();
+    expect(await store.get(upgraded.sessionId)).toMatchObject({ authLevel: 2, authMethod: "totp", ownerKey: "u-mfa" });
+    expect(upgraded.expiresAt - Date.now()).toBeGreaterThan(3_000_000);
+
+    const after = new FakeHttpContext(jar);
+    await kit.middleware()(after, next);
+    expect(kit.getAuth(after)).toMatchObject({ isAuthenticated: true, state: "authenticated", principal: { userId: "u-mfa" } });
+    await expect(kit.upgrade(after)).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+
+    await store.close?.();
+  });
+
+  it("impersonate_exposes_actor_and_stopImpersonating_restores_admin_session", async () => {
+    type Payload = { userId: string; role: string };
+    const store = new MapSessionStore<Payload>();
+    const events: string[] = [];
+    const kit = new SessionKit<Payload, { userId: string; role: string }>({
+      store,
+      session: { ttlSeconds: 3600, impersonationTtlSeconds: 900, maxPerOwner: 1 },
+      ownerKey: (payload) => payload.userId,
+      principalFactory: (payload) => ({ ...payload }),
+      hooks: {
+        onImpersonation(_ctx, event) {
+          events.push(`${event.type}:${event.actor.userId}->${event.target.userId}`);
+        },
+      },
+    });
+    const jar = new Map<string, string>();
+    const next = async () => Promise.resolve();
+    const load = async () => {
+      const ctx = new FakeHttpContext(jar);
+      await kit.middleware()(ctx, next);
+      return ctx;
+    };
+
+    await kit.signIn(new FakeHttpContext(jar), { userId: "admin", role: "support" });
+    const adminSid = jar.get("sid") as string;
+
+    const started = await kit.impersonate(await load(), { userId: "customer", role: "user" }, { ttlSeconds: 7200 });
+    expect(started.expiresAt - Date.now()).toBeLessThanOrEqual(900_000);
+    expect(jar.get("sid")).toBe(started.sessionId);
+
+    const asCustomer = await load();
+    expect(kit.getAuth(asCustomer)).toMatchObject({
+      principal: { userId: "customer" },
+      actor: { userId: "admin", role: "support" },
+    });
+    expect(kit.getAuth(asCustomer).session?.impersonator?.sessionId).toBe(adminSid);
+    await expect(kit.impersonate(asCustomer, { userId: "other", role: "user" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(kit.requirePrincipal(() => true, { forbidImpersonation: true })(asCustomer, next)).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+    await expect(kit.requirePrincipal(() => true)(asCustomer, next)).resolves.toBeUndefined();
+
+    const stopped = await kit.stopImpersonating(asCustomer);
+    expect(stopped?.sessionId).toBe(adminSid);
+    expect(jar.get("sid")).toBe(adminSid);
+    expect(await store.get(started.sessionId)).toBeNull();
+    expect(kit.getAuth(await load())).toMatchObject({ principal: { userId: "admin" }, actor: null });
+    expect(events).toEqual(["start:admin->customer", "stop:admin->customer"]);
+
+    // indexed under the actor without counting against its cap; signing out ends both sessions
+    const again = await kit.impersonate(await load(), { userId: "customer", role: "user" });
+    expect((await kit.listSessionsFor("admin")).map((s) => s.sessionId).sort()).toEqual([adminSid, again.sessionId].sort());
+    expect(await kit.listSessionsFor("customer")).toEqual([]);
+    await kit.signOut(await load());
+    expect(await store.get(again.sessionId)).toBeNull();
+    expect(await store.get(adminSid)).toBeNull();
+
+    await store.close?.();
+  });
+
+  it("updateSession_and_extendSession_persist_and_rehydrate_auth", async () => {
+    type Payload = { userId: string; orgId: string };
+    const store = new MapSessionStore<Payload>();
+    const kit = new SessionKit<Payload, { userId: string; orgId: string }>({
+      store,
+      session: { ttlSeconds: 600, absoluteTtlSeconds: 1200 },
+      principalFactory: (payload) => ({ ...payload }),
+    });
+    const jar = new Map<string, string>();
+    const next = async () => Promise.resolve();
+
+    const { sessionId, expiresAt } = await kit.signIn(new FakeHttpContext(jar), { userId: "u-org", orgId: "org-1" });
+    const ctx = new FakeHttpContext(jar);
+    await kit.middleware()(ctx, next);
+
+    const updated = await kit.updateSession(ctx, (payload) => ({ ...payload, orgId: "org-2" }));
+    expect(updated.expiresAt).toBe(expiresAt);
+    expect(kit.getAuth(ctx).principal).toEqual({ userId: "u-org", orgId: "org-2" });
+    expect((await store.get(sessionId))?.payload.orgId).toBe("org-2");
+    expect(ctx.setCookies).toHaveLength(0);
+
+    const extended = await kit.extendSession(ctx, 300);
+    expect(extended.expiresAt).toBeGreaterThanOrEqual(expiresAt + 299_000);
+    expect(kit.getAuth(ctx).session?.expiresAt).toBe(extended.expiresAt);
+    expect((await store.get(sessionId))?.expiresAt).toBe(extended.expiresAt);
+    expect(ctx.setCookies).toEqual([{ name: "sid", value: sessionId }]);
+
+    // bounded by absoluteTtlSeconds
+    const capped = await kit.extendSession(ctx, 10_000);
+    expect(capped.expiresAt).toBe(capped.createdAt + 1_200_000);
+
+    await expect(kit.updateSession(new FakeHttpContext(new Map()), (p) => p)).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+
+    await store.close?.();
+  });
+
+  it("concurrent_session_writes_retry_on_version_conflict_and_fail_with_SESSION_CONFLICT", async () => {
+    type Payload = { userId: string; orgId?: string; locale?: string };
+    const store = new MapSessionStore<Payload>();
+    const kit = new SessionKit<Payload, Payload>({
+      store,
+      session: { ttlSeconds: 600 },
+      principalFactory: (payload) => ({ ...payload }),
+    });
+    const jar = new Map<string, string>();
+    const next = async () => Promise.resolve();
+
+    const { sessionId } = await kit.signIn(new FakeHttpContext(jar), { userId: "u-cas" });
+    expect((await store.get(sessionId))?.version).toBe(1);
+
+    // both requests load version 1 before either writes
+    const first = new FakeHttpContext(jar);
+    const second = new FakeHttpContext(jar);
+    await kit.middleware()(first, next);
+    await kit.middleware()(second, next);
+
+    await kit.updateSession(first, (payload) => ({ ...payload, orgId: "org-1" }));
+    const merged = await kit.updateSession(second, (payload) => ({ ...payload, locale: "de" }));
+
+    expect(merged.payload).toEqual({ userId: "u-cas", orgId: "org-1", locale: "de" });
+    expect(await store.get(sessionId)).toMatchObject({ version: 3, payload: merged.payload });
+
+    store.compareAndSet = async () => false;
+    await expect(kit.updateSession(second, (payload) => payload)).rejects.toMatchObject({
+      code: "SESSION_CONFLICT",
+      details: { sessionId, attempts: 3 },
+    });
+
+    // deleted by a concurrent request: not a conflict
+    await store.del(sessionId);
+    await expect(kit.updateSession(second, (payload) => payload)).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+
+    // a refreshed token that cannot be saved is reported like a failed refresh
+    const failures: unknown[] = [];
+    const refreshingKit = new SessionKit<Payload, Payload>({
+      store,
+      session: { ttlSeconds: 600 },
+      principalFactory: (payload) => ({ ...payload }),
+      token: { shouldRefresh: () => true, refresh: async (payload) => ({ payload }) },
+    });
+    refreshingKit.on("refreshFailed", (event) => {
+      failures.push(event.error);
+    });
+    const refreshJar = new Map<string, string>();
+    const { sessionId: refreshedId } = await refreshingKit.signIn(new FakeHttpContext(refreshJar), { userId: "u-cas" });
+    const refreshCtx = new FakeHttpContext(refreshJar);
+    await refreshingKit.middleware()(refreshCtx, next);
+    expect(refreshingKit.getAuth(refreshCtx).isAuthenticated).toBe(false);
+    expect(failures).toMatchObject([{ code: "SESSION_CONFLICT", details: { sessionId: refreshedId } }]);
+
+    await store.close?.();
+  });
+
+  it("lifecycle_events_reach_listeners_and_failing_listeners_are_isolated", async () => {
+    const store = new MapSessionStore<{ userId: string }>();
+    const warnings: unknown[] = [];
+    const kit = new SessionKit<{ userId: string }, { userId: string }>({
+      store,
+      session: { ttlSeconds: 120 },
+      principalFactory: (payload) => ({ userId: payload.userId }),
+      logger: { debug() {}, info() {}, warn: (_msg, meta) => warnings.push(meta), error() {} },
+    });
+    const seen: string[] = [];
+    const record = (type: string) => (event: { sessionId: string; reason: string }) => {
+      seen.push(`${type}:${event.reason}`);
+    };
+    for (const type of ["created", "resolved", "rotated", "revoked", "expired"] as const) {
+      kit.on(type, record(type));
+    }
+    kit.on("resolved", () => {
+      throw new Error("sync listener failure");
+    });
+    const unsubscribe = kit.on("resolved", async () => Promise.reject(new Error("async listener failure")));
+
+    const jar = new Map<string, string>();
+    const next = async () => Promise.resolve();
+    const { sessionId } = await kit.signIn(new FakeHttpContext(jar), { userId: "u-events" });
+
+    const ctx = new FakeHttpContext(jar);
+    await kit.middleware()(ctx, next);
+    expect(kit.getAuth(ctx).principal).toEqual({ userId: "u-events" });
+    await kit.rotate(ctx);
+    await kit.signOut(new FakeHttpContext(jar));
+
+    await store.set(sessionId, { payload: { userId: "u-events" }, createdAt: Date.now() - 5_000, expiresAt: Date.now() - 1 }, 60);
+    unsubscribe();
+    await kit.middleware()(new FakeHttpContext(new Map([["sid", sessionId]])), next);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(seen).toEqual([
+      "created:sign_in",
+      "resolved:active",
+      "rotated:manual",
+      "revoked:sign_out",
+      "expired:ttl",
+    ]);
+    expect(warnings).toHaveLength(2);
+    expect(warnings).toContainEqual(expect.objectContaining({ type: "resolved", sessionId }));
+
+    await store.close?.();
+  });
+
+  it("opentelemetry_instrumentation_records_spans_and_metrics", async () => {
+    type SpanRecord = { name: string; attributes: Record<string, unknown>; status?: number; ended: boolean };
+    const spans: SpanRecord[] = [];
+    const metrics: { name: string; value: number; attributes?: Record<string, unknown> }[] = [];
+    const tracer: OtelTracerLike = {
+      startActiveSpan(name, options, fn) {
+        const span: SpanRecord = { name, attributes: { ...options.attributes }, ended: false };
+        spans.push(span);
+        return fn({
+          setAttribute(key, value) {
+            span.attributes[key] = value;
+          },
+          recordException() {},
+          setStatus({ code }) {
+            span.status = code;
+          },
+          end() {
+            span.ended = true;
+          },
+        });
+      },
+    };
+    const meter: OtelMeterLike = {
+      createCounter: (name) => ({ add: (value, attributes) => metrics.push({ name, value, ...(attributes ? { attributes } : {}) }) }),
+      createHistogram: (name) => ({ record: (value, attributes) => metrics.push({ name, value, ...(attributes ? { attributes } : {}) }) }),
+    };
+
+    type Payload = { userId: string; refreshToken?: string };
+    const store = new MapSessionStore<Payload>();
+    const kit = new SessionKit<Payload, { userId: string }>({
+      store,
+      session: { ttlSeconds: 120 },
+      principalFactory: (payload) => ({ userId: payload.userId }),
+      token: {
+        shouldRefresh: (payload) => payload.refreshToken === "rt-old",
+        refresh: async (payload) => ({ payload: { ...payload, refreshToken: "rt-new" } }),
+      },
+      telemetry: new OpenTelemetryInstrumentation({ tracer, meter }),
+    });
+    const jar = new Map<string, string>();
+    const next = async () => Promise.resolve();
+
+    await kit.signIn(new FakeHttpContext(jar), { userId: "u-otel", refreshToken: "rt-old" });
+    await kit.middleware()(new FakeHttpContext(jar), next);
+    await kit.middleware()(new FakeHttpContext(new Map([["sid", "sid-missing"]])), next);
+
+    expect(spans.map((s) => s.name)).toEqual([
+      "sessionkit.store.set",
+      "sessionkit.resolve",
+      "sessionkit.store.get",
+      "sessionkit.lock",
+      "sessionkit.store.get",
+      "sessionkit.token.refresh",
+      "sessionkit.store.compareAndSet",
+      "sessionkit.resolve",
+      "sessionkit.store.get",
+    ]);
+    expect(spans.every((s) => s.ended)).toBe(true);
+    expect(spans.find((s) => s.name === "sessionkit.lock")?.attributes).toEqual({ "sessionkit.lock.scope": "sessionkit:refresh" });
+
+    const counted = (name: string) => metrics.filter((m) => m.name === name).map((m) => m.attributes);
+    expect(counted("sessionkit.sign_ins")).toEqual([{ state: "authenticated" }]);
+    expect(counted("sessionkit.resolutions")).toEqual([{ outcome: "authenticated" }, { outcome: "not_found" }]);
+    expect(counted("sessionkit.token.refreshes")).toEqual([{ outcome: "success" }]);
+    expect(metrics.filter((m) => m.name === "sessionkit.lock.wait")).toHaveLength(1);
+    expect(metrics.filter((m) => m.name === "sessionkit.resolve.duration")).toHaveLength(2);
+
+    store.get = async () => {
+      throw new Error("redis down");
+    };
+    await expect(kit.middleware()(new FakeHttpContext(jar), next)).rejects.toMatchObject({ code: "STORE_UNAVAILABLE" });
+    expect(counted("sessionkit.store.errors")).toEqual([{ operation: "get" }]);
+    expect(spans.at(-2)).toMatchObject({ name: "sessionkit.resolve", status: 2, attributes: { "sessionkit.error_code": "STORE_UNAVAILABLE" } });
+
+    await store.close?.();
+  });
+
   it("refresh_success_updates_payload_and_store", async () => {
     const jar = new Map<string, string>();
     const store = new MapSessionStore<{ userId: string; refreshToken?: string }>();
@@ -353,6 +813,950 @@ describe("SessionKit", () => {
     expect(store.touchCalls).toBe(1);
   });
 
+  it("rotate_moves_session_to_new_id_and_reissues_cookie", async () => {
+    const jar = new Map<string, string>();
+    const store = new MapSessionStore<{ userId: string; refreshToken?: string }>();
+    const kit = createKit(store);
+
+    await kit.signIn(new FakeHttpContext(jar), { userId: "u-rot" });
+    const oldSid = jar.get("sid") as string;
+
+    const requestCtx = new FakeHttpContext(jar);
+    await kit.middleware()(requestCtx, async () => Promise.resolve());
+    const result = await kit.rotate(requestCtx);
+
+    expect(result.previousSessionId).toBe(oldSid);
+    expect(result.sessionId).not.toBe(oldSid);
+    expect(jar.get("sid")).toBe(result.sessionId);
+    expect(await store.get(oldSid)).toBeNull();
+    expect((await store.get(result.sessionId))?.payload.userId).toBe("u-rot");
+    expect(kit.getAuth(requestCtx).sessionId).toBe(result.sessionId);
+
+    await store.close?.();
+  });
+
+  it("rotate_throws_UNAUTHORIZED_without_session", async () => {
+    const kit = createKit(new MapSessionStore());
+    const ctx = new FakeHttpContext(new Map());
+
+    await expect(kit.rotate(ctx)).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+  });
+
+  it("periodic_rotation_keeps_old_id_resolvable_during_grace_window", async () => {
+    type Payload = { userId: string };
+    const store = new MapSessionStore<Payload>();
+    const kit = new SessionKit<Payload, { userId: string }>({
+      store,
+      session: { ttlSeconds: 120, rotateEverySeconds: 60, rotationGraceSeconds: 5 },
+      principalFactory: (payload) => ({ userId: payload.userId }),
+    });
+
+    const now = Date.now();
+    await store.set("sid-old", { payload: { userId: "u-periodic" }, createdAt: now - 61_000, expiresAt: now + 60_000 }, 60);
+
+    const jar = new Map<string, string>([["sid", "sid-old"]]);
+    const requestCtx = new FakeHttpContext(jar);
+    await kit.middleware()(requestCtx, async () => Promise.resolve());
+
+    const newSid = jar.get("sid") as string;
+    expect(newSid).not.toBe("sid-old");
+    expect(kit.getAuth(requestCtx).sessionId).toBe(newSid);
+
+    const graceCopy = await store.get("sid-old");
+    expect(graceCopy?.rotatedTo).toBe(newSid);
+    expect(graceCopy?.expiresAt).toBeLessThanOrEqual(Date.now() + 5_000);
+
+    const inFlightCtx = new FakeHttpContext(new Map([["sid", "sid-old"]]));
+    await kit.middleware()(inFlightCtx, async () => Promise.resolve());
+    expect(kit.getAuth(inFlightCtx).isAuthenticated).toBe(true);
+    expect(inFlightCtx.setCookies).toHaveLength(0);
+
+    await store.close?.();
+  });
+
+  it("concurrent_periodic_rotations_share_one_successor", async () => {
+    type Payload = { userId: string };
+    const store = new MapSessionStore<Payload>();
+    const kit = new SessionKit<Payload, { userId: string }>({
+      store,
+      session: { ttlSeconds: 120, rotateEverySeconds: 60, rotationGraceSeconds: 5 },
+      ownerKey: (payload) => payload.userId,
+      principalFactory: (payload) => ({ userId: payload.userId }),
+    });
+
+    const now = Date.now();
+    const session = { payload: { userId: "u-race" }, ownerKey: "u-race", createdAt: now - 61_000, expiresAt: now + 60_000 };
+    await store.set("sid-old", session, 60);
+
+    // no lock provider: compareAndSet decides which request's rotation wins
+    const jars = [new Map([["sid", "sid-old"]]), new Map([["sid", "sid-old"]])];
+    const contexts = jars.map((jar) => new FakeHttpContext(jar));
+    await Promise.all(contexts.map((ctx) => kit.middleware()(ctx, async () => Promise.resolve())));
+
+    const [first, second] = jars.map((jar) => jar.get("sid"));
+    expect(first).not.toBe("sid-old");
+    expect(second).toBe(first);
+    expect(contexts.map((ctx) => kit.getAuth(ctx).sessionId)).toEqual([first, first]);
+    expect((await kit.listSessionsFor("u-race")).map((s) => s.sessionId)).toEqual([first]);
+    expect((await store.listByOwner("u-race")).map((s) => s.sessionId).sort()).toEqual([first, "sid-old"].sort());
+
+    await store.close?.();
+  });
+
+  it("sessionIdGenerator_formats_new_ids_and_rejects_malformed_ones_before_the_store", async () => {
+    const store = new MapSessionStore<{ userId: string }>();
+    let reads = 0;
+    const get = store.get.bind(store);
+    store.get = async (sessionId) => {
+      reads += 1;
+      return get(sessionId);
+    };
+    const reasons: string[] = [];
+    const kit = new SessionKit<{ userId: string }, { userId: string }>({
+      store,
+      sessionIdGenerator: new PrefixedSessionIdGenerator("sess_"),
+      session: { ttlSeconds: 120 },
+      principalFactory: (payload) => ({ userId: payload.userId }),
+      hooks: {
+        onInvalidSession(_ctx, reason) {
+          reasons.push(reason);
+        },
+      },
+    });
+    const jar = new Map<string, string>();
+    const next = async () => Promise.resolve();
+
+    const { sessionId } = await kit.signIn(new FakeHttpContext(jar), { userId: "u-ids" });
+    expect(sessionId).toMatch(/^sess_[A-Za-z0-9_-]{43}$/);
+
+    const ctx = new FakeHttpContext(jar);
+    await kit.middleware()(ctx, next);
+    const rotated = await kit.rotate(ctx);
+    expect(rotated.sessionId).toMatch(/^sess_[A-Za-z0-9_-]{43}$/);
+
+    reads = 0;
+    const malformed = new FakeHttpContext(new Map([["sid", "sess_short"]]));
+    await kit.middleware()(malformed, next);
+    expect(kit.getAuth(malformed).isAuthenticated).toBe(false);
+    expect(malformed.clearedCookies).toEqual(["sid"]);
+    expect(reasons).toEqual(["INVALID_SESSION_ID"]);
+    expect(reads).toBe(0);
+
+    // the default accepts any URL-safe ID but still rejects junk
+    const defaultKit = createKit(store);
+    await defaultKit.middleware()(new FakeHttpContext(new Map([["sid", "not a session id"]])), next);
+    expect(reads).toBe(0);
+
+    expect(() => new Base64UrlSessionIdGenerator({ bytes: 8 })).toThrow();
+
+    await store.close?.();
+  });
+
+  it("signed_cookie_roundtrips_and_accepts_verify_only_keys", async () => {
+    type Payload = { userId: string };
+    const store = new MapSessionStore<Payload>();
+    const createSignedKit = (secrets: string[]) =>
+      new SessionKit<Payload, { userId: string }>({
+        store,
+        cookie: { signing: { secrets } },
+        session: { ttlSeconds: 120 },
+        principalFactory: (payload) => ({ userId: payload.userId }),
+      });
+
+    const jar = new Map<string, string>();
+    const result = await createSignedKit(["old-secret"]).signIn(new FakeHttpContext(jar), { userId: "u-signed" });
+    expect(jar.get("sid")).toMatch(new RegExp(`^${result.sessionId}\\.`));
+
+    const rotatedKit = createSignedKit(["new-secret", "old-secret"]);
+    const requestCtx = new FakeHttpContext(jar);
+    await rotatedKit.middleware()(requestCtx, async () => Promise.resolve());
+    expect(rotatedKit.getAuth(requestCtx).sessionId).toBe(result.sessionId);
+
+    await store.close?.();
+  });
+
+  it("tampered_signed_cookie_is_rejected_before_store_read", async () => {
+    type Payload = { userId: string };
+    let getCalls = 0;
+    const reasons: string[] = [];
+    const store: SessionStore<Payload> = {
+      async get(): Promise<StoredSession<Payload> | null> {
+        getCalls += 1;
+        return null;
+      },
+      async set(): Promise<void> {
+        return;
+      },
+      async del(): Promise<void> {
+        return;
+      },
+    };
+    const kit = new SessionKit<Payload, { userId: string }>({
+      store,
+      cookie: { signing: { secrets: ["secret"] } },
+      session: { ttlSeconds: 120 },
+      principalFactory: (payload) => ({ userId: payload.userId }),
+      hooks: {
+        onInvalidSession(_ctx, reason) {
+          reasons.push(reason);
+        },
+      },
+    });
+
+    const ctx = new FakeHttpContext(new Map([["sid", "forged-id.AAAA"]]));
+    await kit.middleware()(ctx, async () => Promise.resolve());
+
+    expect(getCalls).toBe(0);
+    expect(reasons).toEqual(["INVALID_SIGNATURE"]);
+    expect(ctx.clearedCookies).toContain("sid");
+    expect(kit.getAuth(ctx).isAuthenticated).toBe(false);
+  });
+
+  it("revokeAllFor_removes_every_session_of_an_owner", async () => {
+    type Payload = { userId: string };
+    const store = new MapSessionStore<Payload>();
+    const kit = new SessionKit<Payload, { userId: string }>({
+      store,
+      session: { ttlSeconds: 120 },
+      principalFactory: (payload) => ({ userId: payload.userId }),
+      ownerKey: (payload) => payload.userId,
+    });
+
+    const current = await kit.signIn(new FakeHttpContext(new Map()), { userId: "u-owner" });
+    await kit.signIn(new FakeHttpContext(new Map()), { userId: "u-owner" });
+    await kit.signIn(new FakeHttpContext(new Map()), { userId: "u-owner" });
+    const other = await kit.signIn(new FakeHttpContext(new Map()), { userId: "u-other" });
+
+    await expect(kit.listSessionsFor("u-owner")).resolves.toHaveLength(3);
+    await expect(kit.revokeAllFor("u-owner", { exceptSessionId: current.sessionId })).resolves.toBe(2);
+    await expect(kit.revokeAllFor("u-owner")).resolves.toBe(1);
+
+    expect(await store.get(current.sessionId)).toBeNull();
+    expect(await store.get(other.sessionId)).not.toBeNull();
+
+    await store.close?.();
+  });
+
+  it("rememberMe_mints_sessions_rotates_tokens_and_revokes_the_series_on_reuse", async () => {
+    type Payload = { userId: string };
+    const store = new MapSessionStore<Payload>();
+    const rememberStore = new MapRememberMeStore<Payload>();
+    const reasons: string[] = [];
+    const created: string[] = [];
+    const kit = new SessionKit<Payload, { userId: string }>({
+      store,
+      session: { ttlSeconds: 120 },
+      principalFactory: (payload) => ({ userId: payload.userId }),
+      ownerKey: (payload) => payload.userId,
+      rememberMe: { store: rememberStore, ttlSeconds: 86_400, reuseGraceSeconds: 0 },
+      hooks: {
+        onInvalidSession(_ctx, reason) {
+          reasons.push(reason);
+        },
+      },
+    });
+    kit.on("created", (event) => {
+      created.push(event.reason);
+    });
+
+    const jar = new Map<string, string>();
+    const signedIn = await kit.signIn(new FakeHttpContext(jar), { userId: "u-remember" }, { rememberMe: true });
+    const firstCookie = jar.get("remember") as string;
+    expect(firstCookie).toMatch(/^[\w-]+\.[\w-]+$/);
+    const [seriesId, firstToken] = firstCookie.split(".") as [string, string];
+    expect(JSON.stringify(await rememberStore.get(seriesId))).not.toContain(firstToken);
+
+    // primary session gone: the remember-me cookie signs the client back in
+    jar.delete("sid");
+    const ctx = new FakeHttpContext(jar);
+    await kit.middleware()(ctx, async () => Promise.resolve());
+    const auth = kit.getAuth(ctx);
+    expect(auth.isAuthenticated).toBe(true);
+    expect(auth.principal?.userId).toBe("u-remember");
+    expect(auth.session?.authMethod).toBe("remember_me");
+    expect(auth.session?.authenticatedAt).toBe((await store.get(signedIn.sessionId))?.authenticatedAt);
+    expect(jar.get("sid")).toBe(auth.sessionId);
+    expect(jar.get("remember")).not.toBe(firstCookie);
+    expect(created).toEqual(["sign_in", "remember_me"]);
+
+    // the rotated-away token comes back: treated as theft
+    jar.delete("sid");
+    const stolen = new FakeHttpContext(new Map([["remember", firstCookie]]));
+    await kit.middleware()(stolen, async () => Promise.resolve());
+    expect(kit.getAuth(stolen).isAuthenticated).toBe(false);
+    expect(stolen.clearedCookies).toContain("remember");
+    expect(reasons).toEqual(["REMEMBER_ME_REUSED"]);
+    expect(await rememberStore.get(seriesId)).toBeNull();
+    // sessions minted from the series go with it, and so do the owner's other sessions
+    expect(await store.get(auth.sessionId as string)).toBeNull();
+    expect(await store.get(signedIn.sessionId)).toBeNull();
+
+    // the legitimate cookie is useless once its series is revoked
+    const victim = new FakeHttpContext(jar);
+    await kit.middleware()(victim, async () => Promise.resolve());
+    expect(kit.getAuth(victim).isAuthenticated).toBe(false);
+
+    // requests racing the token rotation share the session minted for it
+    const graceKit = new SessionKit<Payload, { userId: string }>({
+      store,
+      session: { ttlSeconds: 120 },
+      principalFactory: (payload) => ({ userId: payload.userId }),
+      rememberMe: { store: rememberStore, ttlSeconds: 86_400, reuseGraceSeconds: 30 },
+    });
+    const raceJar = new Map<string, string>();
+    await graceKit.signIn(new FakeHttpContext(raceJar), { userId: "u-race" }, { rememberMe: true });
+    const raceCookie = raceJar.get("remember") as string;
+    const raced = [1, 2].map(() => new FakeHttpContext(new Map([["remember", raceCookie]])));
+    for (const racer of raced) {
+      await graceKit.middleware()(racer, async () => Promise.resolve());
+    }
+    const [first, second] = raced.map((racer) => graceKit.getAuth(racer).sessionId);
+    expect(first).toBeTruthy();
+    expect(second).toBe(first);
+
+    // with hashed IDs the series only records hashes, and reuse still revokes the minted session
+    const hashedStore = new HashedSessionStore(new MapSessionStore<Payload>(), { secrets: ["key-1"] });
+    const hashedRemember = new MapRememberMeStore<Payload>();
+    const hashedKit = new SessionKit<Payload, { userId: string }>({
+      store: hashedStore,
+      session: { ttlSeconds: 120 },
+      principalFactory: (payload) => ({ userId: payload.userId }),
+      rememberMe: { store: hashedRemember, ttlSeconds: 86_400, reuseGraceSeconds: 0 },
+    });
+    const hashedJar = new Map<string, string>();
+    await hashedKit.signIn(new FakeHttpContext(hashedJar), { userId: "u-hashed" }, { rememberMe: true });
+    const hashedCookie = hashedJar.get("remember") as string;
+    hashedJar.delete("sid");
+    const resumed = new FakeHttpContext(hashedJar);
+    await hashedKit.middleware()(resumed, async () => Promise.resolve());
+    const resumedId = hashedKit.getAuth(resumed).sessionId as string;
+    const hashedSeries = await hashedRemember.get(hashedCookie.split(".")[0] as string);
+    expect(hashedSeries?.sessions).toEqual([expect.objectContaining({ key: hashedStore.hashId(resumedId), hashed: true })]);
+    expect(JSON.stringify(hashedSeries)).not.toContain(resumedId);
+    await hashedKit.middleware()(new FakeHttpContext(new Map([["remember", hashedCookie]])), async () => Promise.resolve());
+    expect(await hashedStore.get(resumedId)).toBeNull();
+
+    await kit.signIn(new FakeHttpContext(new Map()), { userId: "u-remember" }, { rememberMe: true });
+    const signOutJar = new Map<string, string>();
+    await kit.signIn(new FakeHttpContext(signOutJar), { userId: "u-remember" }, { rememberMe: true });
+    const signOutSeries = (signOutJar.get("remember") as string).split(".")[0] as string;
+    await kit.signOut(new FakeHttpContext(signOutJar));
+    expect(signOutJar.has("remember")).toBe(false);
+    expect(await rememberStore.get(signOutSeries)).toBeNull();
+    await expect(kit.revokeAllFor("u-remember")).resolves.toBeGreaterThan(0);
+    await expect(rememberStore.deleteByOwner("u-remember")).resolves.toBe(0);
+
+    await expect(kit.signIn(new FakeHttpContext(new Map()), { userId: "u" }, { rememberMe: true, state: "pending_mfa" })).rejects.toMatchObject({
+      code: "INTERNAL_ERROR",
+    });
+
+    await store.close?.();
+    await rememberStore.close();
+  });
+
+  it("guest_sessions_are_created_on_first_write_and_merged_into_signIn", async () => {
+    type Payload = { userId: string; cart: string[] };
+    type Cart = { items: string[] };
+    const store = new MapSessionStore<Payload>();
+    const kit = new SessionKit<Payload, { userId: string }, Cart>({
+      store,
+      session: { ttlSeconds: 120, idleTimeoutSeconds: 60 },
+      principalFactory: (payload) => ({ userId: payload.userId }),
+      guest: {
+        ttlSeconds: 3600,
+        merge: (guest, payload) => ({ ...payload, cart: [...payload.cart, ...guest.items] }),
+      },
+    });
+
+    // nothing is written until the first guest write
+    const jar = new Map<string, string>();
+    const first = new FakeHttpContext(jar);
+    await kit.middleware()(first, async () => Promise.resolve());
+    expect(kit.getGuest(first)).toBeNull();
+    expect(first.setCookies).toHaveLength(0);
+
+    await kit.updateGuest(first, (cart) => ({ items: [...(cart?.items ?? []), "book"] }));
+    const guestId = jar.get("sid") as string;
+    expect(guestId).toBeTruthy();
+    // guest data is kept apart from the (absent) payload
+    expect(await store.get(guestId)).toMatchObject({ state: "guest", guest: { items: ["book"] }, payload: null });
+
+    const second = new FakeHttpContext(jar);
+    await kit.middleware()(second, async () => Promise.resolve());
+    expect(kit.getAuth(second)).toMatchObject({ sessionId: guestId, session: null, isAuthenticated: false, state: "guest" });
+    await expect(kit.updateGuest(second, (cart) => ({ items: [...(cart?.items ?? []), "pen"] }))).resolves.toEqual({
+      items: ["book", "pen"],
+    });
+    await expect(kit.upgrade(second)).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+
+    const login = new FakeHttpContext(jar);
+    await kit.middleware()(login, async () => Promise.resolve());
+    const { sessionId } = await kit.signIn(login, { userId: "u-guest", cart: ["mug"] });
+    expect(sessionId).not.toBe(guestId);
+    expect(await store.get(guestId)).toBeNull();
+    expect((await store.get(sessionId))?.payload.cart).toEqual(["mug", "book", "pen"]);
+    expect(kit.getGuest(login)).toBeNull();
+    await expect(kit.updateGuest(login, () => ({ items: [] }))).rejects.toMatchObject({ code: "INTERNAL_ERROR" });
+
+    const state: SessionState = "guest";
+    const planted = kit.signIn(new FakeHttpContext(new Map()), { userId: "u-guest", cart: [] }, { state });
+    await expect(planted).rejects.toMatchObject({ code: "INTERNAL_ERROR" });
+
+    await store.close?.();
+  });
+
+  it("session_data_is_saved_when_the_request_ends_and_follows_the_session", async () => {
+    const jar = new Map<string, string>();
+    const store = new MapSessionStore<{ userId: string; refreshToken?: string }>();
+    const kit = createKit(store);
+
+    const anonymous = new FakeHttpContext(jar);
+    await kit.middleware()(anonymous, async () => Promise.resolve());
+    expect(() => kit.data(anonymous)).toThrow(expect.objectContaining({ code: "UNAUTHORIZED" }));
+
+    const { sessionId } = await kit.signIn(new FakeHttpContext(jar), { userId: "u-data" });
+    const first = new FakeHttpContext(jar);
+    await kit.middleware()(first, async () => {
+      kit.data(first).set("theme", "dark");
+      kit.data(first).flash("notice", "Saved");
+      await expect(kit.data(first).get("notice")).resolves.toBe("Saved");
+      // nothing is written before the request ends
+      await expect(store.getData(sessionId)).resolves.toEqual({});
+    });
+    await expect(store.getData(sessionId)).resolves.toEqual({
+      theme: { value: "dark" },
+      notice: { value: "Saved", flash: true },
+    });
+
+    // a flashed value is deleted at the end of the request that reads it
+    const second = new FakeHttpContext(jar);
+    await kit.middleware()(second, async () => {
+      await expect(kit.data(second).get("notice")).resolves.toBe("Saved");
+      await expect(kit.data(second).get("notice")).resolves.toBe("Saved");
+      await expect(kit.data(second).get<string>("theme")).resolves.toBe("dark");
+    });
+    await expect(store.getData(sessionId)).resolves.toEqual({ theme: { value: "dark" } });
+
+    const third = new FakeHttpContext(jar);
+    let rotatedId = "";
+    await kit.middleware()(third, async () => {
+      kit.data(third).set("step", 2);
+      rotatedId = (await kit.rotate(third)).sessionId;
+      await expect(kit.data(third).get("theme")).resolves.toBe("dark");
+    });
+    await expect(store.getData(sessionId)).resolves.toEqual({});
+    await expect(store.getData(rotatedId)).resolves.toEqual({ theme: { value: "dark" }, step: { value: 2 } });
+
+    await kit.signOut(new FakeHttpContext(jar));
+    await expect(store.getData(rotatedId)).resolves.toEqual({});
+
+    // a hashed store wrapping a store without data support reports a configuration error
+    const withoutData = new HashedSessionStore<{ userId: string }>(
+      { get: (id) => store.get(id), set: (id, value, ttl) => store.set(id, value, ttl), del: (id) => store.del(id) },
+      { secrets: ["key-1"] }
+    );
+    const hashedKit = new SessionKit<{ userId: string }, { userId: string }>({
+      store: withoutData,
+      session: { ttlSeconds: 600 },
+      principalFactory: (payload) => ({ userId: payload.userId }),
+    });
+    const hashedJar = new Map<string, string>();
+    await hashedKit.signIn(new FakeHttpContext(hashedJar), { userId: "u-data" });
+    const hashed = new FakeHttpContext(hashedJar);
+    await hashedKit.middleware()(hashed, async () => Promise.resolve());
+    await expect(hashedKit.data(hashed).get("theme")).rejects.toMatchObject({ code: "INTERNAL_ERROR" });
+    // and so does one wrapping a store without an owner index
+    await expect(hashedKit.listSessionsFor("u-data")).rejects.toMatchObject({ code: "INTERNAL_ERROR" });
+    await expect(hashedKit.revokeAllFor("u-data")).rejects.toMatchObject({ code: "INTERNAL_ERROR" });
+
+    await store.close?.();
+  });
+
+  it("cookie_store_keeps_encrypted_sessions_in_chunked_cookies", async () => {
+    type Payload = { userId: string; bio: string; refreshToken?: string };
+    const denylist = new MapSessionStore<unknown>();
+    const createCookieKit = (secrets: string[]) =>
+      new SessionKit<Payload, { userId: string }>({
+        store: new CookieSessionStore<Payload>({ secrets, chunkSize: 200, denylist }),
+        session: { ttlSeconds: 120 },
+        principalFactory: (payload) => ({ userId: payload.userId }),
+        token: {
+          shouldRefresh: (payload) => payload.refreshToken === "rt-old",
+          refresh: async (payload) => ({ payload: { ...payload, refreshToken: "rt-new" } }),
+        },
+      });
+    const kit = createCookieKit(["key-1"]);
+    const next = async () => Promise.resolve();
+
+    const jar = new Map<string, string>();
+    const { sessionId } = await kit.signIn(new FakeHttpContext(jar), { userId: "u-cookie", bio: "x".repeat(300) });
+    expect(jar.get("sid")).toBe(sessionId);
+    expect(jar.get("session.2")).toBeDefined();
+    expect([...jar.values()].join("")).not.toContain("u-cookie");
+
+    const update = new FakeHttpContext(jar);
+    await kit.middleware()(update, next);
+    await kit.updateSession(update, (payload) => ({ ...payload, bio: "", refreshToken: "rt-old" }));
+    // the shorter value drops the chunks it no longer needs
+    expect(jar.has("session.2")).toBe(false);
+
+    // refreshes are written back to the cookie, and previous keys still decrypt
+    const rotatedKit = createCookieKit(["key-2", "key-1"]);
+    const refresh = new FakeHttpContext(jar);
+    await rotatedKit.middleware()(refresh, next);
+    expect(rotatedKit.getAuth(refresh)).toMatchObject({ sessionId, isAuthenticated: true });
+    expect(rotatedKit.getAuth(refresh).session?.payload.refreshToken).toBe("rt-new");
+
+    const forged = new FakeHttpContext(new Map([...jar, ["session", `${jar.get("session")}x`]]));
+    await rotatedKit.middleware()(forged, next);
+    expect(rotatedKit.getAuth(forged).isAuthenticated).toBe(false);
+
+    // signOut clears the cookies and denylists the ID, so a copied cookie stops working
+    const copied = new Map(jar);
+    await rotatedKit.signOut(new FakeHttpContext(jar));
+    expect([...jar.keys()].filter((name) => name.startsWith("session"))).toEqual([]);
+    const replay = new FakeHttpContext(copied);
+    await rotatedKit.middleware()(replay, next);
+    expect(rotatedKit.getAuth(replay).isAuthenticated).toBe(false);
+
+    await denylist.close?.();
+  });
+
+  it("jwt_store_verifies_tokens_locally_reissues_on_refresh_and_denylists_on_signOut", async () => {
+    type Payload = { userId: string; refreshToken?: string };
+    const hmacKey: JwtKey = { kty: "oct", kid: "hs-1", alg: "HS256", k: randomBytes(32).toString("base64url") };
+    const ecKey: JwtKey = {
+      ...generateKeyPairSync("ec", { namedCurve: "P-256" }).privateKey.export({ format: "jwk" }),
+      kid: "es-1",
+      alg: "ES256",
+    };
+    const denylist = new MapSessionStore<unknown>();
+    const createJwtKit = (keys: JwtKey[]) => {
+      const store = new JwtSessionStore<Payload>({ keys, denylist });
+      return new SessionKit<Payload, { userId: string }>({
+        store,
+        transport: store.transport,
+        session: { ttlSeconds: 120 },
+        principalFactory: (payload) => ({ userId: payload.userId }),
+        token: {
+          shouldRefresh: (payload) => payload.refreshToken === "rt-old",
+          refresh: async (payload) => ({ payload: { ...payload, refreshToken: "rt-new" } }),
+        },
+      });
+    };
+    const claimsOf = (token: string) => JSON.parse(Buffer.from(token.split(".")[1] as string, "base64url").toString("utf8"));
+    const headerOf = (token: string) => JSON.parse(Buffer.from(token.split(".")[0] as string, "base64url").toString("utf8"));
+    const bearer = (token: string) => new FakeHttpContext(new Map(), { headers: { authorization: `Bearer ${token}` } });
+    const next = async () => Promise.resolve();
+
+    const kit = createJwtKit([hmacKey]);
+    const { sessionId, token } = await kit.signIn(new FakeHttpContext(new Map()), { userId: "u-jwt", refreshToken: "rt-old" });
+    expect(headerOf(token)).toMatchObject({ alg: "HS256", kid: "hs-1" });
+    expect(claimsOf(token)).toMatchObject({ jti: sessionId, payload: { userId: "u-jwt" } });
+    expect(claimsOf(token).exp).toBeGreaterThan(claimsOf(token).iat);
+
+    // refresh goes through token.refresh and hands the client a reissued token
+    const refresh = bearer(token);
+    await kit.middleware()(refresh, next);
+    expect(kit.getAuth(refresh)).toMatchObject({ sessionId, isAuthenticated: true });
+    const refreshed = refresh.responseHeaders.get("x-session-token") as string;
+    expect(claimsOf(refreshed).payload.refreshToken).toBe("rt-new");
+
+    // a new key signs, tokens signed with the previous one still verify
+    const rotatedKit = createJwtKit([ecKey, hmacKey]);
+    const me = bearer(refreshed);
+    await rotatedKit.middleware()(me, next);
+    expect(rotatedKit.getAuth(me).principal).toEqual({ userId: "u-jwt" });
+    const { token: ecToken } = await rotatedKit.rotate(me);
+    expect(headerOf(ecToken)).toMatchObject({ alg: "ES256", kid: "es-1" });
+
+    const [header, , signature] = ecToken.split(".");
+    const forgedClaims = Buffer.from(JSON.stringify({ ...claimsOf(ecToken), payload: { userId: "admin" } })).toString("base64url");
+    const forged = bearer(`${header}.${forgedClaims}.${signature}`);
+    await rotatedKit.middleware()(forged, next);
+    expect(rotatedKit.getAuth(forged).isAuthenticated).toBe(false);
+
+    // signOut denylists the token ID until the token would have expired
+    await rotatedKit.signOut(bearer(ecToken));
+    const replay = bearer(ecToken);
+    await rotatedKit.middleware()(replay, next);
+    expect(rotatedKit.getAuth(replay).isAuthenticated).toBe(false);
+    expect(await denylist.get(claimsOf(ecToken).jti)).not.toBeNull();
+
+    await denylist.close?.();
+  });
+
+  it("hashed_store_keeps_raw_ids_out_of_the_store_and_migrates_previous_secret", async () => {
+    const inner = new MapSessionStore<{ userId: string }>();
+    const createHashedKit = (secrets: string[]) => {
+      const store = new HashedSessionStore(inner, { secrets });
+      const kit = new SessionKit<{ userId: string }, { userId: string }>({
+        store,
+        session: { ttlSeconds: 600 },
+        principalFactory: (payload) => ({ userId: payload.userId }),
+        ownerKey: (payload) => payload.userId,
+      });
+      return { store, kit };
+    };
+    const next = async () => Promise.resolve();
+
+    const before = createHashedKit(["old-secret"]);
+    const jar = new Map<string, string>();
+    const { sessionId } = await before.kit.signIn(new FakeHttpContext(jar), { userId: "u-hash" });
+    await before.kit.signIn(new FakeHttpContext(new Map()), { userId: "u-hash" });
+    await expect(inner.get(sessionId)).resolves.toBeNull();
+    await expect(inner.get(before.store.hashId(sessionId))).resolves.not.toBeNull();
+
+    // rotated secret: found under the previous secret and moved to the current one
+    const after = createHashedKit(["new-secret", "old-secret"]);
+    const ctx = new FakeHttpContext(jar);
+    await after.kit.middleware()(ctx, next);
+    expect(after.kit.getAuth(ctx).principal).toEqual({ userId: "u-hash" });
+    await expect(inner.get(before.store.hashId(sessionId))).resolves.toBeNull();
+    await expect(inner.get(after.store.hashId(sessionId))).resolves.not.toBeNull();
+
+    const listed = await after.kit.listSessionsFor("u-hash");
+    expect(listed.map((entry) => entry.sessionId)).toContain(after.store.hashId(sessionId));
+    expect(listed.map((entry) => entry.sessionId)).not.toContain(sessionId);
+    await expect(after.kit.revokeAllFor("u-hash", { exceptSessionId: sessionId })).resolves.toBe(1);
+    await expect(after.store.get(sessionId)).resolves.not.toBeNull();
+
+    // the admin's session ID is only stored encrypted while impersonating
+    const { sessionId: impersonationId } = await after.kit.impersonate(ctx, { userId: "u-target" });
+    const sealed = await inner.get(after.store.hashId(impersonationId));
+    expect(sealed?.impersonator?.sessionId).not.toBe(sessionId);
+    await expect(after.kit.stopImpersonating(ctx)).resolves.toMatchObject({ sessionId });
+
+    // sessions still filed under the previous secret match exceptSessionId, and writes drop the old key
+    const { sessionId: unmigrated } = await before.kit.signIn(new FakeHttpContext(new Map()), { userId: "u-hash" });
+    await expect(after.kit.revokeAllFor("u-hash", { exceptSessionId: unmigrated })).resolves.toBe(1);
+    await expect(inner.get(before.store.hashId(unmigrated))).resolves.not.toBeNull();
+    const now = Date.now();
+    await after.store.set(unmigrated, { payload: { userId: "u-hash" }, createdAt: now, expiresAt: now + 600_000 }, 600);
+    await expect(inner.get(before.store.hashId(unmigrated))).resolves.toBeNull();
+    await expect(inner.get(after.store.hashId(unmigrated))).resolves.not.toBeNull();
+
+    await inner.close?.();
+  });
+
+  it("maxPerOwner_evicts_least_recently_used_or_rejects_sign_in", async () => {
+    type Payload = { userId: string };
+    const setup = (maxPerOwnerPolicy: "evict-lru" | "reject") => {
+      const store = new MapSessionStore<Payload>();
+      const evicted: string[] = [];
+      const kit = new SessionKit<Payload, { userId: string }>({
+        store,
+        session: { ttlSeconds: 600, maxPerOwner: 2, maxPerOwnerPolicy },
+        principalFactory: (payload) => ({ userId: payload.userId }),
+        ownerKey: (payload) => payload.userId,
+        hooks: {
+          onSessionEvicted(_ctx, entry) {
+            evicted.push(entry.sessionId);
+          },
+        },
+      });
+      return { store, kit, evicted };
+    };
+
+    const now = Date.now();
+    const seed = async (store: MapSessionStore<Payload>) => {
+      const base = { payload: { userId: "u-cap" }, expiresAt: now + 600_000, ownerKey: "u-cap" };
+      await store.set("sid-old-active", { ...base, createdAt: now - 60_000, lastSeenAt: now - 1_000 }, 600);
+      await store.set("sid-new-idle", { ...base, createdAt: now - 30_000, lastSeenAt: now - 30_000 }, 600);
+    };
+
+    const lru = setup("evict-lru");
+    await seed(lru.store);
+    const { sessionId } = await lru.kit.signIn(new FakeHttpContext(new Map()), { userId: "u-cap" });
+    expect(lru.evicted).toEqual(["sid-new-idle"]);
+    expect((await lru.store.listByOwner("u-cap")).map((e) => e.sessionId).sort()).toEqual(
+      ["sid-old-active", sessionId].sort(),
+    );
+
+    const reject = setup("reject");
+    await seed(reject.store);
+    await expect(reject.kit.signIn(new FakeHttpContext(new Map()), { userId: "u-cap" })).rejects.toMatchObject({
+      code: "SESSION_LIMIT_REACHED",
+    });
+    expect(await reject.store.listByOwner("u-cap")).toHaveLength(2);
+
+    await Promise.all([lru.store.close(), reject.store.close()]);
+  });
+
+  it("absoluteTtlSeconds_caps_rolling_renewal_and_reports_SESSION_EXPIRED", async () => {
+    type Payload = { userId: string };
+    const store = new MapSessionStore<Payload>();
+    const reasons: string[] = [];
+    const kit = new SessionKit<Payload, { userId: string }>({
+      store,
+      session: { ttlSeconds: 120, rolling: true, renewBeforeSeconds: 60, absoluteTtlSeconds: 300 },
+      principalFactory: (payload) => ({ userId: payload.userId }),
+      hooks: {
+        onInvalidSession(_ctx, reason) {
+          reasons.push(reason);
+        },
+      },
+    });
+
+    const now = Date.now();
+    await store.set("sid-near-cap", { payload: { userId: "u-abs" }, createdAt: now - 270_000, expiresAt: now + 10_000 }, 10);
+    const renewCtx = new FakeHttpContext(new Map([["sid", "sid-near-cap"]]));
+    await kit.middleware()(renewCtx, async () => Promise.resolve());
+
+    const renewed = kit.getAuth(renewCtx).session;
+    expect(renewed?.expiresAt).toBeLessThanOrEqual(now - 270_000 + 300_000);
+    expect(renewed?.expiresAt).toBeGreaterThan(now + 10_000);
+
+    await store.set("sid-capped", { payload: { userId: "u-abs" }, createdAt: now - 301_000, expiresAt: now + 60_000 }, 60);
+    const cappedCtx = new FakeHttpContext(new Map([["sid", "sid-capped"]]));
+    await kit.middleware()(cappedCtx, async () => Promise.resolve());
+
+    expect(kit.getAuth(cappedCtx).isAuthenticated).toBe(false);
+    expect(reasons).toEqual(["SESSION_EXPIRED"]);
+    expect(await store.get("sid-capped")).toBeNull();
+
+    await store.close?.();
+  });
+
+  it("middleware_tracks_lastSeenAt_with_touchEverySeconds_throttle", async () => {
+    type Payload = { userId: string };
+    const store = new MapSessionStore<Payload>();
+    const kit = new SessionKit<Payload, { userId: string }>({
+      store,
+      session: { ttlSeconds: 120, touchEverySeconds: 30, idleTimeoutSeconds: 300 },
+      principalFactory: (payload) => ({ userId: payload.userId }),
+    });
+
+    const now = Date.now();
+    await store.set("sid-fresh", { payload: { userId: "u" }, createdAt: now - 60_000, expiresAt: now + 60_000, lastSeenAt: now - 10_000 }, 60);
+    await store.set("sid-stale", { payload: { userId: "u" }, createdAt: now - 60_000, expiresAt: now + 60_000, lastSeenAt: now - 40_000 }, 60);
+
+    await kit.middleware()(new FakeHttpContext(new Map([["sid", "sid-fresh"]])), async () => Promise.resolve());
+    await kit.middleware()(new FakeHttpContext(new Map([["sid", "sid-stale"]])), async () => Promise.resolve());
+
+    expect((await store.get("sid-fresh"))?.lastSeenAt).toBe(now - 10_000);
+    const stale = await store.get("sid-stale");
+    expect(stale?.lastSeenAt).toBeGreaterThanOrEqual(now);
+    expect(stale?.expiresAt).toBeLessThanOrEqual(now + 61_000);
+
+    await store.close?.();
+  });
+
+  it("idleTimeoutSeconds_rejects_sessions_without_recent_activity", async () => {
+    type Payload = { userId: string };
+    const store = new MapSessionStore<Payload>();
+    const reasons: string[] = [];
+    const kit = new SessionKit<Payload, { userId: string }>({
+      store,
+      session: { ttlSeconds: 3600, idleTimeoutSeconds: 900 },
+      principalFactory: (payload) => ({ userId: payload.userId }),
+      hooks: {
+        onInvalidSession(_ctx, reason) {
+          reasons.push(reason);
+        },
+      },
+    });
+
+    const now = Date.now();
+    await store.set("sid-idle", { payload: { userId: "u" }, createdAt: now - 1_000_000, expiresAt: now + 600_000, lastSeenAt: now - 901_000 }, 600);
+
+    const ctx = new FakeHttpContext(new Map([["sid", "sid-idle"]]));
+    await kit.middleware()(ctx, async () => Promise.resolve());
+
+    expect(kit.getAuth(ctx).isAuthenticated).toBe(false);
+    expect(reasons).toEqual(["IDLE_TIMEOUT"]);
+    expect(await store.get("sid-idle")).toBeNull();
+
+    // lastSeenAt is written at least every idleTimeoutSeconds / 2, even with a longer touchEverySeconds
+    const shortIdle = new SessionKit<Payload, { userId: string }>({
+      store,
+      session: { ttlSeconds: 3600, touchEverySeconds: 60, idleTimeoutSeconds: 30 },
+      principalFactory: (payload) => ({ userId: payload.userId }),
+    });
+    await store.set("sid-active", { payload: { userId: "u" }, createdAt: now - 40_000, expiresAt: now + 600_000, lastSeenAt: now - 20_000 }, 600);
+    for (let i = 0; i < 2; i += 1) {
+      const active = new FakeHttpContext(new Map([["sid", "sid-active"]]));
+      await shortIdle.middleware()(active, async () => Promise.resolve());
+      expect(shortIdle.getAuth(active).isAuthenticated).toBe(true);
+      const stored = (await store.get("sid-active")) as StoredSession<Payload>;
+      expect(stored.lastSeenAt).toBeGreaterThanOrEqual(now);
+      // the next request arrives 20 seconds later, still inside the idle window
+      await store.set("sid-active", { ...stored, lastSeenAt: (stored.lastSeenAt as number) - 20_000 }, 600);
+    }
+
+    // without an idle timeout (or LRU eviction) nothing reads lastSeenAt, so it is not written
+    const untracked = new SessionKit<Payload, { userId: string }>({
+      store,
+      session: { ttlSeconds: 3600 },
+      principalFactory: (payload) => ({ userId: payload.userId }),
+    });
+    const lastSeenAt = now - 120_000;
+    await store.set("sid-untracked", { payload: { userId: "u" }, createdAt: lastSeenAt, expiresAt: now + 600_000, lastSeenAt }, 600);
+    await untracked.middleware()(new FakeHttpContext(new Map([["sid", "sid-untracked"]])), async () => Promise.resolve());
+    expect((await store.get("sid-untracked"))?.lastSeenAt).toBe(lastSeenAt);
+
+    await store.close?.();
+  });
+
+  it("fingerprint_mismatch_applies_reject_revoke_and_log_policies", async () => {
+    type Payload = { userId: string };
+    const client = { headers: { "user-agent": "browser-a" }, ip: "203.0.113.10" };
+    const sameSubnet = { headers: { "user-agent": "browser-a" }, ip: "203.0.113.77" };
+    const thief = { headers: { "user-agent": "curl" }, ip: "198.51.100.4" };
+
+    const setup = async (onMismatch: "reject" | "revoke" | "log") => {
+      const store = new MapSessionStore<Payload>();
+      const reasons: string[] = [];
+      const kit = new SessionKit<Payload, { userId: string }>({
+        store,
+        session: { ttlSeconds: 120 },
+        principalFactory: (payload) => ({ userId: payload.userId }),
+        fingerprint: { ipSubnet: true, onMismatch },
+        hooks: {
+          onInvalidSession(_ctx, reason) {
+            reasons.push(reason);
+          },
+        },
+      });
+      const jar = new Map<string, string>();
+      await kit.signIn(new FakeHttpContext(jar, client), { userId: "u-fp" });
+      const sid = jar.get("sid") as string;
+      const resolve = async (request: typeof client) => {
+        const ctx = new FakeHttpContext(new Map([["sid", sid]]), request);
+        await kit.middleware()(ctx, async () => Promise.resolve());
+        return { authenticated: kit.getAuth(ctx).isAuthenticated, cleared: ctx.clearedCookies };
+      };
+      return { store, reasons, sid, resolve };
+    };
+
+    const reject = await setup("reject");
+    expect((await reject.store.get(reject.sid))?.fingerprint).toBeTruthy();
+    expect(await reject.resolve(sameSubnet)).toEqual({ authenticated: true, cleared: [] });
+    expect(await reject.resolve(thief)).toEqual({ authenticated: false, cleared: ["sid"] });
+    expect(reject.reasons).toEqual(["FINGERPRINT_MISMATCH"]);
+    expect(await reject.store.get(reject.sid)).not.toBeNull();
+
+    const revoke = await setup("revoke");
+    expect(await revoke.resolve(thief)).toEqual({ authenticated: false, cleared: ["sid"] });
+    expect(await revoke.store.get(revoke.sid)).toBeNull();
+
+    const log = await setup("log");
+    expect(await log.resolve(thief)).toEqual({ authenticated: true, cleared: [] });
+    expect(log.reasons).toEqual(["FINGERPRINT_MISMATCH"]);
+
+    await Promise.all([reject.store.close(), revoke.store.close(), log.store.close()]);
+  });
+
+  it("header_transport_uses_bearer_tokens_without_set_cookie", async () => {
+    type Payload = { userId: string };
+    const store = new MapSessionStore<Payload>();
+    const reasons: string[] = [];
+    const kit = new SessionKit<Payload, { userId: string }>({
+      store,
+      transport: "both",
+      session: { ttlSeconds: 120 },
+      principalFactory: (payload) => ({ userId: payload.userId }),
+      hooks: {
+        onInvalidSession(_ctx, reason) {
+          reasons.push(reason);
+        },
+      },
+    });
+    const next = async () => Promise.resolve();
+
+    const loginCtx = new FakeHttpContext(new Map());
+    const { token } = await kit.signIn(loginCtx, { userId: "u-cli" }, { setCookie: false });
+    expect(loginCtx.setCookies).toHaveLength(0);
+
+    const bearer = (value: string) => new FakeHttpContext(new Map(), { headers: { authorization: `Bearer ${value}` } });
+
+    const meCtx = bearer(token);
+    await kit.middleware()(meCtx, next);
+    expect(kit.getAuth(meCtx).principal).toEqual({ userId: "u-cli" });
+
+    const postCtx = new FakeHttpContext(new Map(), { method: "POST", headers: { authorization: `Bearer ${token}` } });
+    await kit.middleware()(postCtx, next);
+    await expect(kit.csrf()(postCtx, next)).resolves.toBeUndefined();
+
+    const unknownCtx = bearer("missing");
+    await kit.middleware()(unknownCtx, next);
+    expect(kit.getAuth(unknownCtx).isAuthenticated).toBe(false);
+    expect(reasons).toEqual(["SESSION_NOT_FOUND"]);
+    expect(unknownCtx.clearedCookies).toEqual([]);
+
+    const logoutCtx = bearer(token);
+    await kit.signOut(logoutCtx);
+    expect(logoutCtx.clearedCookies).toEqual([]);
+    expect(await store.get(token)).toBeNull();
+
+    const jar = new Map<string, string>();
+    await kit.signIn(new FakeHttpContext(jar), { userId: "u-web" });
+    const cookieCtx = new FakeHttpContext(jar);
+    await kit.middleware()(cookieCtx, next);
+    expect(kit.getAuth(cookieCtx).principal).toEqual({ userId: "u-web" });
+
+    await store.close?.();
+  });
+
+  it("csrf_issues_token_and_validates_unsafe_methods", async () => {
+    const jar = new Map<string, string>();
+    const store = new MapSessionStore<{ userId: string; refreshToken?: string }>();
+    const kit = createKit(store);
+    const next = async () => Promise.resolve();
+
+    await kit.signIn(new FakeHttpContext(jar), { userId: "u-csrf" });
+    const sid = jar.get("sid") as string;
+
+    const pageCtx = new FakeHttpContext(jar);
+    await kit.middleware()(pageCtx, next);
+    await kit.csrf()(pageCtx, next);
+    const token = kit.getAuth(pageCtx).csrfToken as string;
+    expect(token).toBeTruthy();
+    expect((await store.get(sid))?.csrfToken).toBe(token);
+
+    const run = async (request: { method: string; headers?: Record<string, string>; form?: Record<string, string> }) => {
+      const ctx = new FakeHttpContext(jar, request);
+      await kit.middleware()(ctx, next);
+      return kit.csrf()(ctx, next);
+    };
+
+    await expect(run({ method: "POST" })).rejects.toMatchObject({ code: "CSRF_REJECTED" });
+    await expect(run({ method: "POST", headers: { "x-csrf-token": "wrong" } })).rejects.toMatchObject({
+      code: "CSRF_REJECTED",
+    });
+    await expect(run({ method: "POST", headers: { "x-csrf-token": token } })).resolves.toBeUndefined();
+    await expect(run({ method: "DELETE", form: { _csrf: token } })).resolves.toBeUndefined();
+
+    await store.close?.();
+  });
+
+  it("hooks_can_read_request_metadata_and_set_response_headers", async () => {
+    const seen: unknown[] = [];
+    const kit = new SessionKit<{ userId: string }, { userId: string }>({
+      store: new MapSessionStore(),
+      session: { ttlSeconds: 120 },
+      principalFactory: (payload) => ({ userId: payload.userId }),
+      hooks: {
+        onUnauthorized(ctx) {
+          seen.push([ctx.getMethod(), ctx.getPath(), ctx.getClientIp(), ctx.getUserAgent()]);
+          ctx.setHeader("WWW-Authenticate", "Session");
+          ctx.status(401);
+        },
+      },
+    });
+
+    const ctx = new FakeHttpContext(new Map(), {
+      method: "DELETE",
+      url: "/admin/users?id=1",
+      ip: "203.0.113.9",
+      headers: { "user-agent": "vitest" },
+    });
+    await kit.requireAuth()(ctx, async () => Promise.resolve());
+
+    expect(seen).toEqual([["DELETE", "/admin/users", "203.0.113.9", "vitest"]]);
+    expect(ctx.responseHeaders.get("www-authenticate")).toBe("Session");
+  });
+
   it("middleware_throws_SessionKitError_for_unknown_errors", async () => {
     const brokenStore: SessionStore<{ userId: string; refreshToken?: string }> = {
       async get(): Promise<null> {
@@ -375,3 +1779,42 @@ describe("SessionKit", () => {
     );
   });
 });
+
+describe("CookieCodec", () => {
+  it("signs_on_serialize_and_verifies_on_parse", () => {
+    const signing = { secrets: ["secret"] };
+    const header = serializeSetCookie("sid", "abc", { signing });
+    const pair = header.split(";")[0] as string;
+
+    expect(parseCookieHeader(`${pair}; theme=dark`, { signing, signed: ["sid"] })).toEqual({
+      sid: "abc",
+      theme: "dark",
+    });
+    expect(parseCookieHeader("sid=abc.forged; theme=dark", { signing, signed: ["sid"] })).toEqual({
+      theme: "dark",
+    });
+  });
+});
+
+describe("ipSubnet", () => {
+  it("masks IPv4 and IPv6 addresses to their prefix", () => {
+    expect(ipSubnet("203.0.113.42")).toBe("203.0.113.0/24");
+    expect(ipSubnet("203.0.113.42", 16)).toBe("203.0.0.0/16");
+    expect(ipSubnet("2001:db8:1:2:3:4:5:6")).toBe("2001:db8:1:2:0:0:0:0/64");
+    expect(ipSubnet("2001:db8::1", 24, 32)).toBe("2001:db8:0:0:0:0:0:0/32");
+    expect(ipSubnet("unknown")).toBe("unknown");
+  });
+});
+
+describe("resolveClientIp", () => {
+  it("applies the trusted proxy policy to X-Forwarded-For", () => {
+    const xff = "198.51.100.7, 10.0.0.2";
+
+    expect(resolveClientIp("10.0.0.1", xff)).toBe("10.0.0.1");
+    expect(resolveClientIp("10.0.0.1", xff, true)).toBe("198.51.100.7");
+    expect(resolveClientIp("10.0.0.1", xff, 1)).toBe("10.0.0.2");
+    expect(resolveClientIp("10.0.0.1", xff, 2)).toBe("198.51.100.7");
+    expect(resolveClientIp("10.0.0.1", xff, ["10.0.0.1", "10.0.0.2"])).toBe("198.51.100.7");
+    expect(resolveClientIp("::ffff:10.0.0.1", null, true)).toBe("10.0.0.1");
+  });
+});
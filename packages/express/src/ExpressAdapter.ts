@@ -1,16 +1,30 @@
 import {
   type AuthContext,
+  type CsrfOptions,
   defaultErrorBody,
   isSessionKitError,
+  type PrincipalPredicate,
+  type ReauthenticateOptions,
   type RequireAuthOptions,
+  type RequirePermissionsOptions,
+  type RequirePrincipalOptions,
+  type RequireRecentAuthOptions,
+  type RotateOptions,
+  type RotateResult,
+  type SessionData,
   SessionKitError,
   SessionKit,
   type SignInOptions,
   type SignInResult,
   type SignOutOptions,
   statusFromErrorCode,
+  type StoredSession,
   type HttpContext,
   type HttpMiddleware,
+  type ImpersonateOptions,
+  resolveClientIp,
+  type TrustProxy,
+  type UpgradeOptions,
 } from "@sessionkit/core";
 import { parse as parseCookie, serialize as serializeCookie } from "cookie";
 
@@ -18,7 +32,14 @@ import { parse as parseCookie, serialize as serializeCookie } from "cookie";
  * Minimal request shape required by SessionKit Express adapter.
  */
 export type SessionKitExpressRequest = {
+  method?: string;
+  url?: string;
+  originalUrl?: string;
+  path?: string;
+  ip?: string;
+  socket?: { remoteAddress?: string | undefined };
   headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
   auth?: unknown;
 };
 
@@ -30,6 +51,7 @@ export type SessionKitExpressResponse = {
   json(body: unknown): unknown;
   getHeader(name: string): unknown;
   setHeader(name: string, value: unknown): unknown;
+  end?(...args: unknown[]): unknown; // wrapped so session data is saved before the response goes out
 };
 
 export type SessionKitExpressNext = (error?: unknown) => void;
@@ -47,17 +69,34 @@ export type SessionKitExpressHandler = (
  */
 export type SessionKitExpressAdapterOptions = {
   onError?: (error: SessionKitError, req: SessionKitExpressRequest, res: SessionKitExpressResponse) => Promise<void> | void;
+  /**
+   * Trusted-proxy policy for `X-Forwarded-For`. When omitted, Express's own `req.ip`
+   * (which honours the app's "trust proxy" setting) is used.
+   */
+  trustProxy?: TrustProxy;
 };
 
 /**
  * Adapter-bound SessionKit facade for Express applications.
  */
-export type ExpressSessionKit<TPayload, TPrincipal> = {
-  readonly core: SessionKit<TPayload, TPrincipal>;
+export type ExpressSessionKit<TPayload, TPrincipal, TGuest = unknown> = {
+  readonly core: SessionKit<TPayload, TPrincipal, TGuest>;
   context(req: SessionKitExpressRequest, res: SessionKitExpressResponse): HttpContext;
   middleware(options?: SessionKitExpressAdapterOptions): SessionKitExpressHandler;
   optionalAuth(options?: SessionKitExpressAdapterOptions): SessionKitExpressHandler;
   requireAuth(requireAuthOptions?: RequireAuthOptions, options?: SessionKitExpressAdapterOptions): SessionKitExpressHandler;
+  requirePrincipal(
+    predicate: PrincipalPredicate<TPrincipal>,
+    requirePrincipalOptions?: RequirePrincipalOptions,
+    options?: SessionKitExpressAdapterOptions,
+  ): SessionKitExpressHandler;
+  requirePermissions(
+    permissions: string | string[],
+    requirePermissionsOptions?: RequirePermissionsOptions,
+    options?: SessionKitExpressAdapterOptions,
+  ): SessionKitExpressHandler;
+  requireRecentAuth(requireRecentAuthOptions?: RequireRecentAuthOptions, options?: SessionKitExpressAdapterOptions): SessionKitExpressHandler;
+  csrf(csrfOptions?: CsrfOptions, options?: SessionKitExpressAdapterOptions): SessionKitExpressHandler;
   signIn(
     req: SessionKitExpressRequest,
     res: SessionKitExpressResponse,
@@ -65,13 +104,57 @@ export type ExpressSessionKit<TPayload, TPrincipal> = {
     options?: SignInOptions,
   ): Promise<SignInResult<TPrincipal>>;
   signOut(req: SessionKitExpressRequest, res: SessionKitExpressResponse, options?: SignOutOptions): Promise<void>;
+  upgrade(
+    req: SessionKitExpressRequest,
+    res: SessionKitExpressResponse,
+    options?: UpgradeOptions,
+  ): Promise<SignInResult<TPrincipal>>;
+  impersonate(
+    req: SessionKitExpressRequest,
+    res: SessionKitExpressResponse,
+    targetPayload: TPayload,
+    options?: ImpersonateOptions,
+  ): Promise<SignInResult<TPrincipal>>;
+  stopImpersonating(req: SessionKitExpressRequest, res: SessionKitExpressResponse): Promise<SignInResult<TPrincipal> | null>;
+  rotate(req: SessionKitExpressRequest, res: SessionKitExpressResponse, options?: RotateOptions): Promise<RotateResult>;
+  updateSession(
+    req: SessionKitExpressRequest,
+    res: SessionKitExpressResponse,
+    updater: (payload: TPayload) => TPayload | Promise<TPayload>,
+  ): Promise<StoredSession<TPayload>>;
+  extendSession(req: SessionKitExpressRequest, res: SessionKitExpressResponse, seconds: number): Promise<StoredSession<TPayload>>;
+  markReauthenticated(
+    req: SessionKitExpressRequest,
+    res: SessionKitExpressResponse,
+    level: number,
+    options?: ReauthenticateOptions,
+  ): Promise<void>;
+  updateGuest(
+    req: SessionKitExpressRequest,
+    res: SessionKitExpressResponse,
+    updater: (data: TGuest | null) => TGuest | Promise<TGuest>,
+  ): Promise<TGuest>;
+  data(req: SessionKitExpressRequest, res: SessionKitExpressResponse): SessionData;
   getAuth(req: SessionKitExpressRequest, res: SessionKitExpressResponse): AuthContext<TPayload, TPrincipal>;
+  getGuest(req: SessionKitExpressRequest, res: SessionKitExpressResponse): TGuest | null;
 };
 
 /**
  * Creates a framework-neutral `HttpContext` from Express request/response.
  */
-export function createExpressHttpContext(req: SessionKitExpressRequest, res: SessionKitExpressResponse): HttpContext {
+export function createExpressHttpContext(
+  req: SessionKitExpressRequest,
+  res: SessionKitExpressResponse,
+  options?: SessionKitExpressAdapterOptions,
+): HttpContext {
+  const header = (name: string): string | null => {
+    const value = req.headers[name.toLowerCase()];
+    if (value === undefined) {
+      return null;
+    }
+    return Array.isArray(value) ? value.join(", ") : value;
+  };
+
   return {
     getCookie(name: string): string | null {
       const header = req.headers.cookie;
@@ -119,6 +202,43 @@ export function createExpressHttpContext(req: SessionKitExpressRequest, res: Ses
       );
     },
 
+    getMethod(): string {
+      return req.method ?? "GET";
+    },
+
+    getUrl(): string {
+      return req.originalUrl ?? req.url ?? "/";
+    },
+
+    getPath(): string {
+      return req.path ?? (req.originalUrl ?? req.url ?? "/").split("?")[0] ?? "/";
+    },
+
+    getHeader(name: string): string | null {
+      return header(name);
+    },
+
+    getClientIp(): string | null {
+      if (options?.trustProxy === undefined && typeof req.ip === "string") {
+        return req.ip;
+      }
+      return resolveClientIp(req.socket?.remoteAddress, header("x-forwarded-for"), options?.trustProxy);
+    },
+
+    getUserAgent(): string | null {
+      return header("user-agent");
+    },
+
+    async getFormField(name: string): Promise<string | null> {
+      // populated by express.urlencoded() / express.json() when mounted before SessionKit
+      const body = req.body;
+      if (!body || typeof body !== "object") {
+        return null;
+      }
+      const value = (body as Record<string, unknown>)[name];
+      return typeof value === "string" ? value : null;
+    },
+
     setAuth<T>(value: T): void {
       req.auth = value;
     },
@@ -127,6 +247,14 @@ export function createExpressHttpContext(req: SessionKitExpressRequest, res: Ses
       return (req.auth as T | undefined) ?? null;
     },
 
+    requestKey(): object {
+      return req;
+    },
+
+    setHeader(name: string, value: string): void {
+      res.setHeader(name, value);
+    },
+
     status(code: number): void {
       res.status(code);
     },
@@ -134,6 +262,32 @@ export function createExpressHttpContext(req: SessionKitExpressRequest, res: Ses
     json(body: unknown): void {
       res.json(body);
     },
+
+    ...(typeof res.end === "function"
+      ? {
+          beforeResponse(task: () => Promise<void>): void {
+            deferEnd(res, task);
+          },
+        }
+      : {}),
+  };
+}
+
+/**
+ * Holds back `res.end` until `task` has settled. Express middleware cannot await the route
+ * handler, so this is the last point at which SessionKit can still write to the store.
+ */
+function deferEnd(res: SessionKitExpressResponse, task: () => Promise<void>): void {
+  const end = res.end;
+  if (!end) {
+    return;
+  }
+
+  res.end = (...args: unknown[]) => {
+    res.end = end;
+    const finish = () => end.apply(res, args);
+    void task().then(finish, finish);
+    return res;
   };
 }
 
@@ -145,7 +299,7 @@ export function toExpressMiddleware(
   options?: SessionKitExpressAdapterOptions,
 ): SessionKitExpressHandler {
   return async (req, res, next) => {
-    const ctx = createExpressHttpContext(req, res);
+    const ctx = createExpressHttpContext(req, res, options);
 
     try {
       await middleware(ctx, async () => {
@@ -172,17 +326,17 @@ export function toExpressMiddleware(
 /**
  * Binds a core SessionKit instance to Express adapter utilities.
  */
-export function createExpressSessionKit<TPayload, TPrincipal>(
-  core: SessionKit<TPayload, TPrincipal>,
+export function createExpressSessionKit<TPayload, TPrincipal, TGuest = unknown>(
+  core: SessionKit<TPayload, TPrincipal, TGuest>,
   options?: SessionKitExpressAdapterOptions,
-): ExpressSessionKit<TPayload, TPrincipal> {
+): ExpressSessionKit<TPayload, TPrincipal, TGuest> {
   const resolveAdapterOptions = (override?: SessionKitExpressAdapterOptions): SessionKitExpressAdapterOptions | undefined =>
     override ?? options;
 
   return {
     core,
     context(req, res) {
-      return createExpressHttpContext(req, res);
+      return createExpressHttpContext(req, res, options);
     },
     middleware(overrideOptions) {
       return toExpressMiddleware(core.middleware(), resolveAdapterOptions(overrideOptions));
@@ -193,14 +347,56 @@ export function createExpressSessionKit<TPayload, TPrincipal>(
     requireAuth(requireAuthOptions, overrideOptions) {
       return toExpressMiddleware(core.requireAuth(requireAuthOptions), resolveAdapterOptions(overrideOptions));
     },
+    requirePrincipal(predicate, requirePrincipalOptions, overrideOptions) {
+      return toExpressMiddleware(core.requirePrincipal(predicate, requirePrincipalOptions), resolveAdapterOptions(overrideOptions));
+    },
+    requirePermissions(permissions, requirePermissionsOptions, overrideOptions) {
+      return toExpressMiddleware(core.requirePermissions(permissions, requirePermissionsOptions), resolveAdapterOptions(overrideOptions));
+    },
+    requireRecentAuth(requireRecentAuthOptions, overrideOptions) {
+      return toExpressMiddleware(core.requireRecentAuth(requireRecentAuthOptions), resolveAdapterOptions(overrideOptions));
+    },
+    csrf(csrfOptions, overrideOptions) {
+      return toExpressMiddleware(core.csrf(csrfOptions), resolveAdapterOptions(overrideOptions));
+    },
     signIn(req, res, payload, signInOptions) {
-      return core.signIn(createExpressHttpContext(req, res), payload, signInOptions);
+      return core.signIn(createExpressHttpContext(req, res, options), payload, signInOptions);
     },
     signOut(req, res, signOutOptions) {
-      return core.signOut(createExpressHttpContext(req, res), signOutOptions);
+      return core.signOut(createExpressHttpContext(req, res, options), signOutOptions);
+    },
+    upgrade(req, res, upgradeOptions) {
+      return core.upgrade(createExpressHttpContext(req, res, options), upgradeOptions);
+    },
+    impersonate(req, res, targetPayload, impersonateOptions) {
+      return core.impersonate(createExpressHttpContext(req, res, options), targetPayload, impersonateOptions);
+    },
+    stopImpersonating(req, res) {
+      return core.stopImpersonating(createExpressHttpContext(req, res, options));
+    },
+    rotate(req, res, rotateOptions) {
+      return core.rotate(createExpressHttpContext(req, res, options), rotateOptions);
+    },
+    updateSession(req, res, updater) {
+      return core.updateSession(createExpressHttpContext(req, res, options), updater);
+    },
+    extendSession(req, res, seconds) {
+      return core.extendSession(createExpressHttpContext(req, res, options), seconds);
+    },
+    markReauthenticated(req, res, level, reauthenticateOptions) {
+      return core.markReauthenticated(createExpressHttpContext(req, res, options), level, reauthenticateOptions);
+    },
+    updateGuest(req, res, updater) {
+      return core.updateGuest(createExpressHttpContext(req, res, options), updater);
+    },
+    data(req, res) {
+      return core.data(createExpressHttpContext(req, res, options));
     },
     getAuth(req, res) {
-      return core.getAuth(createExpressHttpContext(req, res));
+      return core.getAuth(createExpressHttpContext(req, res, options));
+    },
+    getGuest(req, res) {
+      return core.getGuest(createExpressHttpContext(req, res, options));
     },
   };
 }
@@ -3,6 +3,10 @@ import { MapSessionStore, SessionKit, SessionKitError, type HttpMiddleware } fro
 import { createExpressHttpContext, createExpressSessionKit, toExpressMiddleware } from "../src";
 
 type Req = {
+  method?: string;
+  originalUrl?: string;
+  ip?: string;
+  socket?: { remoteAddress?: string };
   headers: Record<string, string | string[] | undefined>;
   auth?: unknown;
 };
@@ -99,6 +103,29 @@ describe("ExpressAdapter", () => {
     expect(values[1]).toContain("Max-Age=0");
   });
 
+  it("exposes request metadata and applies trustProxy to X-Forwarded-For", () => {
+    const { res } = createReqRes();
+    const req: Req = {
+      method: "POST",
+      originalUrl: "/orders/42?expand=items",
+      ip: "10.0.0.1",
+      socket: { remoteAddress: "10.0.0.1" },
+      headers: { "user-agent": "vitest", "x-forwarded-for": "198.51.100.7, 10.0.0.2" },
+    };
+
+    const ctx = createExpressHttpContext(req, res);
+    expect(ctx.getMethod()).toBe("POST");
+    expect(ctx.getUrl()).toBe("/orders/42?expand=items");
+    expect(ctx.getPath()).toBe("/orders/42");
+    expect(ctx.getUserAgent()).toBe("vitest");
+    expect(ctx.getClientIp()).toBe("10.0.0.1");
+
+    expect(createExpressHttpContext(req, res, { trustProxy: 2 }).getClientIp()).toBe("198.51.100.7");
+
+    ctx.setHeader("X-Request-Id", "abc");
+    expect(res.getHeader("x-request-id")).toBe("abc");
+  });
+
   it("supports adapter-bound middleware without toExpressMiddleware", async () => {
     const core = new SessionKit<{ userId: string }, { userId: string }>({
       store: new MapSessionStore<{ userId: string }>(),
@@ -1,6 +1,7 @@
 import { afterEach, describe, expect, it } from "vitest";
 import { createServer } from "node:http";
-import { MapSessionStore, SessionKit } from "@sessionkit/core";
+import { randomBytes } from "node:crypto";
+import { CookieSessionStore, JwtSessionStore, MapSessionStore, SessionKit } from "@sessionkit/core";
 import { createExpressSessionKit } from '../src/index.ts';
 
 let server;
@@ -13,10 +14,11 @@ afterEach(async () => {
   server = undefined;
 });
 
-function createApp() {
-  const store = new MapSessionStore();
+function createApp(signingSecrets, transport, store = new MapSessionStore()) {
   const coreKit = new SessionKit({
     store,
+    ...(signingSecrets ? { cookie: { signing: { secrets: signingSecrets } } } : {}),
+    ...(transport ? { transport } : {}),
     session: { ttlSeconds: 120, rolling: true, renewBeforeSeconds: 10 },
     principalFactory: (payload) => ({ userId: payload.userId }),
   });
@@ -29,6 +31,7 @@ async function startExpress(kit) {
   const express = (await import("express")).default;
   const app = express();
   app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
 
   app.use(kit.middleware());
 
@@ -46,6 +49,27 @@ async function startExpress(kit) {
     res.status(200).json({ me: auth.principal });
   });
 
+  app.get("/admin", kit.requirePrincipal((principal) => principal.userId === "admin"), (_req, res) => {
+    res.status(200).json({ ok: true });
+  });
+
+  app.get("/csrf-token", kit.csrf(), (req, res) => {
+    res.status(200).json({ token: kit.getAuth(req, res).csrfToken });
+  });
+
+  app.post("/transfer", kit.csrf(), (_req, res) => {
+    res.status(200).json({ ok: true });
+  });
+
+  app.post("/token", async (req, res, next) => {
+    try {
+      const result = await kit.signIn(req, res, { userId: req.body?.userId ?? "u1" }, { setCookie: false });
+      res.status(200).json({ token: result.token });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   app.post("/logout", async (req, res, next) => {
     try {
       await kit.signOut(req, res);
@@ -55,6 +79,58 @@ async function startExpress(kit) {
     }
   });
 
+  app.post("/visits", kit.requireAuth(), async (req, res, next) => {
+    try {
+      const data = kit.data(req, res);
+      const visits = ((await data.get("visits")) ?? 0) + 1;
+      data.set("visits", visits);
+      res.status(200).json({ visits });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/login-trimmed", async (req, res, next) => {
+    try {
+      await kit.signIn(req, res, { userId: "u-trim", bio: "x".repeat(600) });
+      await kit.updateSession(req, res, (payload) => ({ ...payload, bio: "" }));
+      res.status(200).json({ ok: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/profile", kit.requireAuth(), async (req, res, next) => {
+    try {
+      await kit.updateSession(req, res, (payload) => ({ ...payload, bio: "updated" }));
+      res.status(200).json({ ok: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/reauth", kit.requireAuth(), async (req, res, next) => {
+    try {
+      await kit.markReauthenticated(req, res, 2);
+      res.status(200).json({ ok: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/sensitive", kit.requireRecentAuth({ minLevel: 2 }), (_req, res) => {
+    res.status(200).json({ ok: true });
+  });
+
+  app.post("/rotate", kit.requireAuth(), async (req, res, next) => {
+    try {
+      const result = await kit.rotate(req, res);
+      res.status(200).json({ token: result.token });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   app.get("/cookie-twice", (_req, res) => {
     const ctx = kit.context(_req, res);
     ctx.setCookie("sid", "abc", { path: "/", httpOnly: true });
@@ -69,6 +145,20 @@ async function startExpress(kit) {
   return `http://127.0.0.1:${port}`;
 }
 
+// applies a response's Set-Cookie headers in order, like a browser
+function applySetCookies(jar, res) {
+  for (const header of res.headers.getSetCookie()) {
+    const [pair, ...attributes] = header.split(";");
+    const [name, value] = pair.split("=");
+    if (attributes.some((attribute) => attribute.trim() === "Max-Age=0")) {
+      jar.delete(name);
+    } else {
+      jar.set(name, value);
+    }
+  }
+  return [...jar].map(([name, value]) => `${name}=${value}`).join("; ");
+}
+
 const describeExpress = process.env.CODEX_SANDBOX === "seatbelt" ? describe.skip : describe;
 
 describeExpress("Express integration", () => {
@@ -107,6 +197,140 @@ describeExpress("Express integration", () => {
     expect(meAfterLogout.status).toBe(401);
   });
 
+  it("accepts signed cookies and rejects tampered ones", async () => {
+    const { kit } = createApp(["secret"]);
+    const baseUrl = await startExpress(kit);
+
+    const login = await fetch(`${baseUrl}/login`, { method: "POST" });
+    const cookie = (login.headers.get("set-cookie") ?? "").split(";")[0];
+    expect(cookie).toMatch(/^sid=[^.]+\.[A-Za-z0-9_-]+$/);
+
+    const meAfter = await fetch(`${baseUrl}/me`, { headers: { cookie } });
+    expect(meAfter.status).toBe(200);
+
+    const tampered = await fetch(`${baseUrl}/me`, {
+      headers: { cookie: cookie.replace(/^sid=[^.]+/, "sid=forged") },
+    });
+    expect(tampered.status).toBe(401);
+  });
+
+  it("rejects unsafe requests without a valid CSRF token", async () => {
+    const { kit } = createApp();
+    const baseUrl = await startExpress(kit);
+
+    const login = await fetch(`${baseUrl}/login`, { method: "POST" });
+    const cookie = login.headers.get("set-cookie") ?? "";
+    const tokenRes = await fetch(`${baseUrl}/csrf-token`, { headers: { cookie } });
+    const { token } = await tokenRes.json();
+
+    const missing = await fetch(`${baseUrl}/transfer`, { method: "POST", headers: { cookie } });
+    expect(missing.status).toBe(403);
+
+    const viaHeader = await fetch(`${baseUrl}/transfer`, {
+      method: "POST",
+      headers: { cookie, "x-csrf-token": token },
+    });
+    expect(viaHeader.status).toBe(200);
+
+    const viaForm = await fetch(`${baseUrl}/transfer`, {
+      method: "POST",
+      headers: { cookie, "content-type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({ _csrf: token }).toString(),
+    });
+    expect(viaForm.status).toBe(200);
+  });
+
+  it("answers 403 FORBIDDEN when the principal fails a guard", async () => {
+    const { kit } = createApp();
+    const baseUrl = await startExpress(kit);
+
+    const anonymous = await fetch(`${baseUrl}/admin`);
+    expect(anonymous.status).toBe(401);
+
+    const login = await fetch(`${baseUrl}/login`, { method: "POST" });
+    const cookie = login.headers.get("set-cookie") ?? "";
+    const res = await fetch(`${baseUrl}/admin`, { headers: { cookie } });
+    expect(res.status).toBe(403);
+    await expect(res.json()).resolves.toMatchObject({ error: { code: "FORBIDDEN" } });
+  });
+
+  it("authenticates bearer tokens without emitting set-cookie", async () => {
+    const { kit } = createApp(undefined, "both");
+    const baseUrl = await startExpress(kit);
+
+    const issued = await fetch(`${baseUrl}/token`, { method: "POST" });
+    expect(issued.headers.get("set-cookie")).toBeNull();
+    const { token } = await issued.json();
+    const headers = { authorization: `Bearer ${token}` };
+
+    const me = await fetch(`${baseUrl}/me`, { headers });
+    expect(me.status).toBe(200);
+    await expect(me.json()).resolves.toEqual({ me: { userId: "u1" } });
+
+    const logout = await fetch(`${baseUrl}/logout`, { method: "POST", headers });
+    expect(logout.status).toBe(200);
+    expect(logout.headers.get("set-cookie")).toBeNull();
+
+    const meAfterLogout = await fetch(`${baseUrl}/me`, { headers });
+    expect(meAfterLogout.status).toBe(401);
+    expect(meAfterLogout.headers.get("set-cookie")).toBeNull();
+  });
+
+  it("saves session data before the response is sent", async () => {
+    const { kit } = createApp();
+    const baseUrl = await startExpress(kit);
+
+    const login = await fetch(`${baseUrl}/login`, { method: "POST" });
+    const cookie = (login.headers.get("set-cookie") ?? "").split(";")[0];
+
+    const first = await fetch(`${baseUrl}/visits`, { method: "POST", headers: { cookie } });
+    await expect(first.json()).resolves.toEqual({ visits: 1 });
+    const second = await fetch(`${baseUrl}/visits`, { method: "POST", headers: { cookie } });
+    await expect(second.json()).resolves.toEqual({ visits: 2 });
+  });
+
+  it("shares the cookie store's view between middleware and facade calls", async () => {
+    const { kit } = createApp(undefined, undefined, new CookieSessionStore({ secrets: ["key-1"], chunkSize: 200 }));
+    const baseUrl = await startExpress(kit);
+
+    // the shrinking rewrite clears the chunks signIn wrote earlier in the same response
+    const jar = new Map();
+    const cookie = applySetCookies(jar, await fetch(`${baseUrl}/login-trimmed`, { method: "POST" }));
+    expect(jar.has("session.2")).toBe(false);
+
+    const me = await fetch(`${baseUrl}/me`, { headers: { cookie } });
+    expect(me.status).toBe(200);
+    await expect(me.json()).resolves.toEqual({ me: { userId: "u-trim" } });
+  });
+
+  it("reissues and revokes JWTs written through facade calls", async () => {
+    const store = new JwtSessionStore({
+      keys: [{ kty: "oct", kid: "k1", alg: "HS256", k: randomBytes(32).toString("base64url") }],
+      denylist: new MapSessionStore(),
+    });
+    const { kit } = createApp(undefined, store.transport, store);
+    const baseUrl = await startExpress(kit);
+    const bearer = (token) => ({ authorization: `Bearer ${token}` });
+
+    const { token } = await (await fetch(`${baseUrl}/token`, { method: "POST" })).json();
+    expect((await fetch(`${baseUrl}/sensitive`, { headers: bearer(token) })).status).toBe(401);
+
+    const reauth = await fetch(`${baseUrl}/reauth`, { method: "POST", headers: bearer(token) });
+    const reauthToken = reauth.headers.get("x-session-token");
+    expect(reauthToken).toBeTruthy();
+    expect((await fetch(`${baseUrl}/sensitive`, { headers: bearer(reauthToken) })).status).toBe(200);
+
+    const profile = await fetch(`${baseUrl}/profile`, { method: "POST", headers: bearer(reauthToken) });
+    const profileToken = profile.headers.get("x-session-token");
+    const claims = JSON.parse(Buffer.from(profileToken.split(".")[1], "base64url").toString("utf8"));
+    expect(claims.payload).toEqual({ userId: "u1", bio: "updated" });
+
+    const rotate = await fetch(`${baseUrl}/rotate`, { method: "POST", headers: bearer(profileToken) });
+    const { token: rotatedToken } = await rotate.json();
+    expect((await fetch(`${baseUrl}/me`, { headers: bearer(profileToken) })).status).toBe(401);
+    expect((await fetch(`${baseUrl}/me`, { headers: bearer(rotatedToken) })).status).toBe(200);
+  });
+
   it("appends set-cookie headers in same response", async () => {
     const { kit } = createApp();
     const baseUrl = await startExpress(kit);
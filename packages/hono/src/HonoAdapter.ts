@@ -1,16 +1,30 @@
 import {
   type AuthContext,
+  type CsrfOptions,
   defaultErrorBody,
   isSessionKitError,
+  type PrincipalPredicate,
+  type ReauthenticateOptions,
   type RequireAuthOptions,
+  type RequirePermissionsOptions,
+  type RequirePrincipalOptions,
+  type RequireRecentAuthOptions,
+  type RotateOptions,
+  type RotateResult,
+  type SessionData,
   SessionKitError,
   SessionKit,
   type SignInOptions,
   type SignInResult,
   type SignOutOptions,
   statusFromErrorCode,
+  type StoredSession,
   type HttpContext,
   type HttpMiddleware,
+  type ImpersonateOptions,
+  resolveClientIp,
+  type TrustProxy,
+  type UpgradeOptions,
 } from "@sessionkit/core";
 import type { Context, MiddlewareHandler } from "hono";
 import { parse as parseCookie, serialize as serializeCookie } from "cookie";
@@ -25,20 +39,51 @@ export const SESSIONKIT_HONO_AUTH_KEY = "auth";
  */
 export type SessionKitHonoAdapterOptions = {
   onError?: (error: SessionKitError, c: Context) => Promise<Response | void> | Response | void;
+  /**
+   * Trusted-proxy policy for `X-Forwarded-For` (default `false`: use the socket address only).
+   */
+  trustProxy?: TrustProxy;
+  /**
+   * Reads the socket peer address. Defaults to the Node.js server binding (`c.env.incoming`);
+   * other runtimes should provide their own (e.g. via `hono/conninfo`).
+   */
+  getRemoteAddress?: (c: Context) => string | null | undefined;
 };
 
 /**
  * Adapter-bound SessionKit facade for Hono applications.
  */
-export type HonoSessionKit<TPayload, TPrincipal> = {
-  readonly core: SessionKit<TPayload, TPrincipal>;
+export type HonoSessionKit<TPayload, TPrincipal, TGuest = unknown> = {
+  readonly core: SessionKit<TPayload, TPrincipal, TGuest>;
   context(c: Context): HttpContext;
   middleware(options?: SessionKitHonoAdapterOptions): MiddlewareHandler;
   optionalAuth(options?: SessionKitHonoAdapterOptions): MiddlewareHandler;
   requireAuth(requireAuthOptions?: RequireAuthOptions, options?: SessionKitHonoAdapterOptions): MiddlewareHandler;
+  requirePrincipal(
+    predicate: PrincipalPredicate<TPrincipal>,
+    requirePrincipalOptions?: RequirePrincipalOptions,
+    options?: SessionKitHonoAdapterOptions,
+  ): MiddlewareHandler;
+  requirePermissions(
+    permissions: string | string[],
+    requirePermissionsOptions?: RequirePermissionsOptions,
+    options?: SessionKitHonoAdapterOptions,
+  ): MiddlewareHandler;
+  requireRecentAuth(requireRecentAuthOptions?: RequireRecentAuthOptions, options?: SessionKitHonoAdapterOptions): MiddlewareHandler;
+  csrf(csrfOptions?: CsrfOptions, options?: SessionKitHonoAdapterOptions): MiddlewareHandler;
   signIn(c: Context, payload: TPayload, options?: SignInOptions): Promise<SignInResult<TPrincipal>>;
   signOut(c: Context, options?: SignOutOptions): Promise<void>;
+  upgrade(c: Context, options?: UpgradeOptions): Promise<SignInResult<TPrincipal>>;
+  impersonate(c: Context, targetPayload: TPayload, options?: ImpersonateOptions): Promise<SignInResult<TPrincipal>>;
+  stopImpersonating(c: Context): Promise<SignInResult<TPrincipal> | null>;
+  rotate(c: Context, options?: RotateOptions): Promise<RotateResult>;
+  updateSession(c: Context, updater: (payload: TPayload) => TPayload | Promise<TPayload>): Promise<StoredSession<TPayload>>;
+  extendSession(c: Context, seconds: number): Promise<StoredSession<TPayload>>;
+  markReauthenticated(c: Context, level: number, options?: ReauthenticateOptions): Promise<void>;
+  updateGuest(c: Context, updater: (data: TGuest | null) => TGuest | Promise<TGuest>): Promise<TGuest>;
+  data(c: Context): SessionData;
   getAuth(c: Context): AuthContext<TPayload, TPrincipal>;
+  getGuest(c: Context): TGuest | null;
 };
 
 type HonoHttpContext = HttpContext & {
@@ -48,7 +93,7 @@ type HonoHttpContext = HttpContext & {
 /**
  * Creates a framework-neutral `HttpContext` from Hono context.
  */
-export function createHonoHttpContext(c: Context): HttpContext {
+export function createHonoHttpContext(c: Context, options?: SessionKitHonoAdapterOptions): HttpContext {
   let statusCode = 200;
   let directResponse: Response | null = null;
 
@@ -101,6 +146,48 @@ export function createHonoHttpContext(c: Context): HttpContext {
       );
     },
 
+    getMethod(): string {
+      return c.req.method;
+    },
+
+    getUrl(): string {
+      return c.req.url;
+    },
+
+    getPath(): string {
+      return c.req.path;
+    },
+
+    getHeader(name: string): string | null {
+      return c.req.header(name) ?? null;
+    },
+
+    getClientIp(): string | null {
+      const remoteAddress = options?.getRemoteAddress ? options.getRemoteAddress(c) : defaultRemoteAddress(c);
+      return resolveClientIp(remoteAddress, c.req.header("x-forwarded-for"), options?.trustProxy);
+    },
+
+    getUserAgent(): string | null {
+      return c.req.header("user-agent") ?? null;
+    },
+
+    async getFormField(name: string): Promise<string | null> {
+      const contentType = c.req.header("content-type") ?? "";
+      if (!contentType.includes("application/x-www-form-urlencoded") && !contentType.includes("multipart/form-data")) {
+        return null;
+      }
+      // parseBody caches the parsed body, so downstream handlers can still read it
+      let body: Awaited<ReturnType<typeof c.req.parseBody>>;
+      try {
+        body = await c.req.parseBody();
+      } catch {
+        // a malformed body carries no token: the CSRF check rejects it instead of failing with a 500
+        return null;
+      }
+      const value = body[name];
+      return typeof value === "string" ? value : null;
+    },
+
     setAuth<T>(value: T): void {
       (c.set as (key: string, value: unknown) => void)(SESSIONKIT_HONO_AUTH_KEY, value);
     },
@@ -109,6 +196,14 @@ export function createHonoHttpContext(c: Context): HttpContext {
       return ((c.get as (key: string) => unknown)(SESSIONKIT_HONO_AUTH_KEY) as T | undefined) ?? null;
     },
 
+    requestKey(): object {
+      return c;
+    },
+
+    setHeader(name: string, value: string): void {
+      c.header(name, value);
+    },
+
     status(code: number): void {
       statusCode = code;
       (c.status as (value: number) => void)(code);
@@ -133,7 +228,7 @@ export function toHonoMiddleware(
   options?: SessionKitHonoAdapterOptions,
 ): MiddlewareHandler {
   return async (c, next) => {
-    const ctx = createHonoHttpContext(c);
+    const ctx = createHonoHttpContext(c, options);
 
     let nextCalled = false;
     try {
@@ -178,17 +273,17 @@ export function toHonoMiddleware(
 /**
  * Binds a core SessionKit instance to Hono adapter utilities.
  */
-export function createHonoSessionKit<TPayload, TPrincipal>(
-  core: SessionKit<TPayload, TPrincipal>,
+export function createHonoSessionKit<TPayload, TPrincipal, TGuest = unknown>(
+  core: SessionKit<TPayload, TPrincipal, TGuest>,
   options?: SessionKitHonoAdapterOptions,
-): HonoSessionKit<TPayload, TPrincipal> {
+): HonoSessionKit<TPayload, TPrincipal, TGuest> {
   const resolveAdapterOptions = (override?: SessionKitHonoAdapterOptions): SessionKitHonoAdapterOptions | undefined =>
     override ?? options;
 
   return {
     core,
     context(c) {
-      return createHonoHttpContext(c);
+      return createHonoHttpContext(c, options);
     },
     middleware(overrideOptions) {
       return toHonoMiddleware(core.middleware(), resolveAdapterOptions(overrideOptions));
@@ -199,18 +294,65 @@ export function createHonoSessionKit<TPayload, TPrincipal>(
     requireAuth(requireAuthOptions, overrideOptions) {
       return toHonoMiddleware(core.requireAuth(requireAuthOptions), resolveAdapterOptions(overrideOptions));
     },
+    requirePrincipal(predicate, requirePrincipalOptions, overrideOptions) {
+      return toHonoMiddleware(core.requirePrincipal(predicate, requirePrincipalOptions), resolveAdapterOptions(overrideOptions));
+    },
+    requirePermissions(permissions, requirePermissionsOptions, overrideOptions) {
+      return toHonoMiddleware(core.requirePermissions(permissions, requirePermissionsOptions), resolveAdapterOptions(overrideOptions));
+    },
+    requireRecentAuth(requireRecentAuthOptions, overrideOptions) {
+      return toHonoMiddleware(core.requireRecentAuth(requireRecentAuthOptions), resolveAdapterOptions(overrideOptions));
+    },
+    csrf(csrfOptions, overrideOptions) {
+      return toHonoMiddleware(core.csrf(csrfOptions), resolveAdapterOptions(overrideOptions));
+    },
     signIn(c, payload, signInOptions) {
-      return core.signIn(createHonoHttpContext(c), payload, signInOptions);
+      return core.signIn(createHonoHttpContext(c, options), payload, signInOptions);
     },
     signOut(c, signOutOptions) {
-      return core.signOut(createHonoHttpContext(c), signOutOptions);
+      return core.signOut(createHonoHttpContext(c, options), signOutOptions);
+    },
+    upgrade(c, upgradeOptions) {
+      return core.upgrade(createHonoHttpContext(c, options), upgradeOptions);
+    },
+    impersonate(c, targetPayload, impersonateOptions) {
+      return core.impersonate(createHonoHttpContext(c, options), targetPayload, impersonateOptions);
+    },
+    stopImpersonating(c) {
+      return core.stopImpersonating(createHonoHttpContext(c, options));
+    },
+    rotate(c, rotateOptions) {
+      return core.rotate(createHonoHttpContext(c, options), rotateOptions);
+    },
+    updateSession(c, updater) {
+      return core.updateSession(createHonoHttpContext(c, options), updater);
+    },
+    extendSession(c, seconds) {
+      return core.extendSession(createHonoHttpContext(c, options), seconds);
+    },
+    markReauthenticated(c, level, reauthenticateOptions) {
+      return core.markReauthenticated(createHonoHttpContext(c, options), level, reauthenticateOptions);
+    },
+    updateGuest(c, updater) {
+      return core.updateGuest(createHonoHttpContext(c, options), updater);
+    },
+    data(c) {
+      return core.data(createHonoHttpContext(c, options));
     },
     getAuth(c) {
-      return core.getAuth(createHonoHttpContext(c));
+      return core.getAuth(createHonoHttpContext(c, options));
+    },
+    getGuest(c) {
+      return core.getGuest(createHonoHttpContext(c, options));
     },
   };
 }
 
+function defaultRemoteAddress(c: Context): string | null {
+  const env = c.env as { incoming?: { socket?: { remoteAddress?: string } } } | undefined;
+  return env?.incoming?.socket?.remoteAddress ?? null;
+}
+
 function toCookieSerializeOptions(value: Record<string, unknown>): Parameters<typeof serializeCookie>[2] {
   return value as Parameters<typeof serializeCookie>[2];
 }
@@ -62,6 +62,32 @@ describe("HonoAdapter", () => {
     expect(setCookie).toContain("Max-Age=0");
   });
 
+  it("exposes request metadata and applies trustProxy to X-Forwarded-For", async () => {
+    const app = new Hono();
+    let seen: unknown[] = [];
+
+    app.use(
+      "/orders/*",
+      toHonoMiddleware(
+        async (ctx, next) => {
+          seen = [ctx.getMethod(), ctx.getPath(), ctx.getClientIp(), ctx.getUserAgent()];
+          ctx.setHeader("X-Request-Id", "abc");
+          await next();
+        },
+        { trustProxy: 1, getRemoteAddress: () => "10.0.0.1" },
+      ),
+    );
+    app.post("/orders/:id", (c) => c.text("ok"));
+
+    const res = await app.request("http://localhost/orders/42?expand=items", {
+      method: "POST",
+      headers: { "user-agent": "vitest", "x-forwarded-for": "198.51.100.7" },
+    });
+
+    expect(seen).toEqual(["POST", "/orders/42", "198.51.100.7", "vitest"]);
+    expect(res.headers.get("x-request-id")).toBe("abc");
+  });
+
   it("supports adapter-bound middleware without toHonoMiddleware", async () => {
     const core = new SessionKit<{ userId: string }, { userId: string }>({
       store: new MapSessionStore<{ userId: string }>(),
@@ -1,14 +1,30 @@
+import { randomBytes } from "node:crypto";
 import { describe, expect, it } from "vitest";
 import { Hono } from "hono";
-import { MapSessionStore, SessionKit } from "@sessionkit/core";
+import {
+  CookieSessionStore,
+  JwtSessionStore,
+  MapSessionStore,
+  SessionKit,
+  type SessionStore,
+  type SessionTransport,
+} from "@sessionkit/core";
 import { createHonoSessionKit } from "../src";
 
-function createApp() {
-  const store = new MapSessionStore<{ userId: string }>();
-  const coreKit = new SessionKit<{ userId: string }, { userId: string }>({
+type Payload = { userId: string; bio?: string };
+
+function createApp(
+  signingSecrets?: string[],
+  transport?: "cookie" | "header" | "both" | SessionTransport,
+  store: SessionStore<Payload> = new MapSessionStore<Payload>(),
+) {
+  const coreKit = new SessionKit<Payload, { userId: string }>({
     store,
+    ...(signingSecrets ? { cookie: { signing: { secrets: signingSecrets } } } : {}),
+    ...(transport ? { transport } : {}),
     session: { ttlSeconds: 120, rolling: true, renewBeforeSeconds: 10 },
     principalFactory: (payload) => ({ userId: payload.userId }),
+    permissions: (principal) => (principal.userId === "admin" ? ["admin"] : []),
   });
   const kit = createHonoSessionKit(coreKit);
 
@@ -25,11 +41,45 @@ function createApp() {
     return c.json({ me: auth.principal });
   });
 
+  app.get("/admin", kit.requirePermissions("admin"), (c) => c.json({ ok: true }));
+
+  app.get("/csrf-token", kit.csrf(), (c) => c.json({ token: kit.getAuth(c).csrfToken }));
+
+  app.post("/transfer", kit.csrf(), (c) => c.json({ ok: true }));
+
+  app.post("/token", async (c) => {
+    const result = await kit.signIn(c, { userId: "u-cli" }, { setCookie: false });
+    return c.json({ token: result.token });
+  });
+
   app.post("/logout", async (c) => {
     await kit.signOut(c);
     return c.json({ ok: true });
   });
 
+  app.post("/login-trimmed", async (c) => {
+    await kit.signIn(c, { userId: "u-trim", bio: "x".repeat(600) });
+    await kit.updateSession(c, (payload) => ({ ...payload, bio: "" }));
+    return c.json({ ok: true });
+  });
+
+  app.post("/profile", kit.requireAuth(), async (c) => {
+    await kit.updateSession(c, (payload) => ({ ...payload, bio: "updated" }));
+    return c.json({ ok: true });
+  });
+
+  app.post("/reauth", kit.requireAuth(), async (c) => {
+    await kit.markReauthenticated(c, 2);
+    return c.json({ ok: true });
+  });
+
+  app.get("/sensitive", kit.requireRecentAuth({ minLevel: 2 }), (c) => c.json({ ok: true }));
+
+  app.post("/rotate", kit.requireAuth(), async (c) => {
+    const result = await kit.rotate(c);
+    return c.json({ token: result.token });
+  });
+
   app.get("/cookie-twice", (c) => {
     const ctx = kit.context(c);
     ctx.setCookie("sid", "abc", { path: "/", httpOnly: true });
@@ -40,6 +90,20 @@ function createApp() {
   return app;
 }
 
+// applies a response's Set-Cookie headers in order, like a browser
+function applySetCookies(jar: Map<string, string>, res: Response): string {
+  for (const header of res.headers.getSetCookie()) {
+    const [pair = "", ...attributes] = header.split(";");
+    const [name = "", value = ""] = pair.split("=");
+    if (attributes.some((attribute) => attribute.trim() === "Max-Age=0")) {
+      jar.delete(name);
+    } else {
+      jar.set(name, value);
+    }
+  }
+  return [...jar].map(([name, value]) => `${name}=${value}`).join("; ");
+}
+
 describe("Hono integration", () => {
   it("supports login -> me -> logout flow", async () => {
     const app = createApp();
@@ -69,6 +133,128 @@ describe("Hono integration", () => {
     expect(meAfterLogout.status).toBe(401);
   });
 
+  it("accepts signed cookies and rejects tampered ones", async () => {
+    const app = createApp(["secret"]);
+
+    const login = await app.request("http://localhost/login", { method: "POST" });
+    const cookie = (login.headers.get("set-cookie") ?? "").split(";")[0] ?? "";
+    expect(cookie).toMatch(/^sid=[^.]+\.[A-Za-z0-9_-]+$/);
+
+    const meAfter = await app.request("http://localhost/me", { headers: { cookie } });
+    expect(meAfter.status).toBe(200);
+
+    const tampered = await app.request("http://localhost/me", {
+      headers: { cookie: cookie.replace(/^sid=[^.]+/, "sid=forged") },
+    });
+    expect(tampered.status).toBe(401);
+  });
+
+  it("rejects unsafe requests without a valid CSRF token", async () => {
+    const app = createApp();
+
+    const login = await app.request("http://localhost/login", { method: "POST" });
+    const cookie = login.headers.get("set-cookie") ?? "";
+    const tokenRes = await app.request("http://localhost/csrf-token", { headers: { cookie } });
+    const { token } = (await tokenRes.json()) as { token: string };
+
+    const missing = await app.request("http://localhost/transfer", { method: "POST", headers: { cookie } });
+    expect(missing.status).toBe(403);
+    await expect(missing.json()).resolves.toMatchObject({ error: { code: "CSRF_REJECTED" } });
+
+    const viaHeader = await app.request("http://localhost/transfer", {
+      method: "POST",
+      headers: { cookie, "x-csrf-token": token },
+    });
+    expect(viaHeader.status).toBe(200);
+
+    const viaForm = await app.request("http://localhost/transfer", {
+      method: "POST",
+      headers: { cookie, "content-type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({ _csrf: token }).toString(),
+    });
+    expect(viaForm.status).toBe(200);
+
+    const malformed = await app.request("http://localhost/transfer", {
+      method: "POST",
+      headers: { cookie, "content-type": "multipart/form-data; boundary=missing" },
+      body: "not a multipart body",
+    });
+    expect(malformed.status).toBe(403);
+    await expect(malformed.json()).resolves.toMatchObject({ error: { code: "CSRF_REJECTED" } });
+  });
+
+  it("answers 403 FORBIDDEN when the principal lacks a permission", async () => {
+    const app = createApp();
+
+    const anonymous = await app.request("http://localhost/admin");
+    expect(anonymous.status).toBe(401);
+
+    const login = await app.request("http://localhost/login", { method: "POST" });
+    const cookie = login.headers.get("set-cookie") ?? "";
+    const res = await app.request("http://localhost/admin", { headers: { cookie } });
+    expect(res.status).toBe(403);
+    await expect(res.json()).resolves.toMatchObject({ error: { code: "FORBIDDEN" } });
+  });
+
+  it("authenticates bearer tokens without emitting set-cookie", async () => {
+    const app = createApp(undefined, "header");
+
+    const issued = await app.request("http://localhost/token", { method: "POST" });
+    expect(issued.headers.get("set-cookie")).toBeNull();
+    const { token } = (await issued.json()) as { token: string };
+    const headers = { authorization: `Bearer ${token}` };
+
+    const me = await app.request("http://localhost/me", { headers });
+    expect(me.status).toBe(200);
+    await expect(me.json()).resolves.toEqual({ me: { userId: "u-cli" } });
+
+    const logout = await app.request("http://localhost/logout", { method: "POST", headers });
+    expect(logout.status).toBe(200);
+    expect(logout.headers.get("set-cookie")).toBeNull();
+
+    const meAfterLogout = await app.request("http://localhost/me", { headers });
+    expect(meAfterLogout.status).toBe(401);
+    expect(meAfterLogout.headers.get("set-cookie")).toBeNull();
+  });
+
+  it("shares the cookie store's view between middleware and facade calls", async () => {
+    const app = createApp(undefined, undefined, new CookieSessionStore<Payload>({ secrets: ["key-1"], chunkSize: 200 }));
+
+    // the shrinking rewrite clears the chunks signIn wrote earlier in the same response
+    const jar = new Map<string, string>();
+    const cookie = applySetCookies(jar, await app.request("http://localhost/login-trimmed", { method: "POST" }));
+    expect(jar.has("session.2")).toBe(false);
+
+    const me = await app.request("http://localhost/me", { headers: { cookie } });
+    expect(me.status).toBe(200);
+    await expect(me.json()).resolves.toEqual({ me: { userId: "u-trim" } });
+  });
+
+  it("reissues and revokes JWTs written through facade calls", async () => {
+    const store = new JwtSessionStore<Payload>({
+      keys: [{ kty: "oct", kid: "k1", alg: "HS256", k: randomBytes(32).toString("base64url") }],
+      denylist: new MapSessionStore<unknown>(),
+    });
+    const app = createApp(undefined, store.transport, store);
+    const request = (path: string, token: string, method = "GET") =>
+      app.request(`http://localhost${path}`, { method, headers: { authorization: `Bearer ${token}` } });
+
+    const { token } = (await (await app.request("http://localhost/token", { method: "POST" })).json()) as { token: string };
+    expect((await request("/sensitive", token)).status).toBe(401);
+
+    const reauthToken = (await request("/reauth", token, "POST")).headers.get("x-session-token") ?? "";
+    expect(reauthToken).not.toBe("");
+    expect((await request("/sensitive", reauthToken)).status).toBe(200);
+
+    const profileToken = (await request("/profile", reauthToken, "POST")).headers.get("x-session-token") ?? "";
+    const claims = JSON.parse(Buffer.from(profileToken.split(".")[1] ?? "", "base64url").toString("utf8"));
+    expect(claims.payload).toEqual({ userId: "u-cli", bio: "updated" });
+
+    const { token: rotatedToken } = (await (await request("/rotate", profileToken, "POST")).json()) as { token: string };
+    expect((await request("/me", profileToken)).status).toBe(401);
+    expect((await request("/me", rotatedToken)).status).toBe(200);
+  });
+
   it("appends set-cookie headers in same response", async () => {
     const app = createApp();
     const res = await app.request("http://localhost/cookie-twice");
@@ -0,0 +1,142 @@
+import type { RememberMeSeries, RememberMeStore } from "@sessionkit/core";
+import {
+  RedisClientManager,
+  type RedisClientLike,
+  type RedisConnectionInput,
+  addToSet,
+  extendTtl,
+  normalizeTtl,
+  removeFromSet,
+  setMembers,
+  setWithTtl,
+} from "./internal/redisClient";
+import type { RedisSessionStore } from "./RedisSessionStore";
+
+/**
+ * Configuration for {@link RedisRememberMeStore}.
+ */
+export type RedisRememberMeStoreOptions = {
+  keyPrefix?: string;
+  ownerIndexPrefix?: string;
+};
+
+/**
+ * Accepted constructor input for {@link RedisRememberMeStore}.
+ */
+export type RedisRememberMeStoreInput =
+  | RedisConnectionInput
+  | {
+      store: Pick<RedisSessionStore<unknown>, "getClientManager">; // any RedisSessionStore, whatever its payload type
+    };
+
+const DEFAULT_KEY_PREFIX = "sessionkit:remember:";
+const DEFAULT_OWNER_INDEX_PREFIX = "sessionkit:remember-owner:";
+
+/**
+ * Redis-backed implementation of SessionKit `RememberMeStore`, stored as JSON.
+ *
+ * Series with an `ownerKey` are tracked in a per-owner set, like sessions in {@link RedisSessionStore}.
+ */
+export class RedisRememberMeStore<TPayload> implements RememberMeStore<TPayload> {
+  private readonly keyPrefix: string;
+  private readonly ownerIndexPrefix: string;
+  private readonly clientManager: RedisClientManager;
+  private readonly ownsClientManager: boolean;
+
+  constructor(input: RedisRememberMeStoreInput, options?: RedisRememberMeStoreOptions) {
+    if (isStoreInput(input)) {
+      this.clientManager = input.store.getClientManager();
+      this.ownsClientManager = false;
+    } else {
+      this.clientManager = new RedisClientManager(input);
+      this.ownsClientManager = true;
+    }
+    this.keyPrefix = options?.keyPrefix ?? DEFAULT_KEY_PREFIX;
+    this.ownerIndexPrefix = options?.ownerIndexPrefix ?? DEFAULT_OWNER_INDEX_PREFIX;
+  }
+
+  async get(seriesId: string): Promise<RememberMeSeries<TPayload> | null> {
+    const client = await this.clientManager.getClient();
+    return parseSeries<TPayload>(await client.get(this.makeKey(seriesId)));
+  }
+
+  async set(seriesId: string, value: RememberMeSeries<TPayload>, ttlSeconds: number): Promise<void> {
+    const ttl = normalizeTtl(ttlSeconds);
+    const client = await this.clientManager.getClient();
+
+    await setWithTtl(client, this.makeKey(seriesId), JSON.stringify(value), ttl);
+    if (value.ownerKey !== undefined) {
+      await this.indexSeries(client, value.ownerKey, seriesId, ttl);
+    }
+  }
+
+  async del(seriesId: string): Promise<void> {
+    const client = await this.clientManager.getClient();
+    const key = this.makeKey(seriesId);
+    const ownerKey = parseSeries<TPayload>(await client.get(key))?.ownerKey;
+
+    await client.del(key);
+    if (ownerKey !== undefined) {
+      await removeFromSet(client, this.makeOwnerKey(ownerKey), seriesId);
+    }
+  }
+
+  async deleteByOwner(ownerKey: string): Promise<number> {
+    const client = await this.clientManager.getClient();
+    const indexKey = this.makeOwnerKey(ownerKey);
+    let deleted = 0;
+
+    for (const seriesId of await setMembers(client, indexKey)) {
+      const series = await this.get(seriesId);
+      if (series === null || series.ownerKey !== ownerKey) {
+        continue;
+      }
+      await client.del(this.makeKey(seriesId));
+      deleted += 1;
+    }
+    await client.del(indexKey);
+    return deleted;
+  }
+
+  async close(): Promise<void> {
+    if (!this.ownsClientManager) {
+      return;
+    }
+    await this.clientManager.close();
+  }
+
+  private makeKey(seriesId: string): string {
+    return `${this.keyPrefix}${seriesId}`;
+  }
+
+  private makeOwnerKey(ownerKey: string): string {
+    return `${this.ownerIndexPrefix}${ownerKey}`;
+  }
+
+  private async indexSeries(
+    client: RedisClientLike,
+    ownerKey: string,
+    seriesId: string,
+    ttlSeconds: number,
+  ): Promise<void> {
+    const indexKey = this.makeOwnerKey(ownerKey);
+    await addToSet(client, indexKey, seriesId);
+    await extendTtl(client, indexKey, ttlSeconds);
+  }
+}
+
+function parseSeries<TPayload>(raw: string | null): RememberMeSeries<TPayload> | null {
+  if (raw === null) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(raw) as RememberMeSeries<TPayload>;
+  } catch {
+    return null;
+  }
+}
+
+function isStoreInput(input: RedisRememberMeStoreInput): input is Extract<RedisRememberMeStoreInput, { store: unknown }> {
+  return typeof input === "object" && input !== null && "store" in input;
+}
@@ -1,10 +1,18 @@
-import type { SessionStore, StoredSession } from "@sessionkit/core";
+import type { OwnedSession, SessionDataPatch, SessionDataValue, SessionStore, StoredSession } from "@sessionkit/core";
 import {
   RedisClientManager,
   type RedisClientLike,
   type RedisConnectionInput,
   type RedisConnectionParams,
+  addToSet,
+  compareAndSwap,
+  deleteHashField,
+  extendTtl,
+  hashEntries,
   normalizeTtl,
+  removeFromSet,
+  setHashFields,
+  setMembers,
   setWithTtl,
 } from "./internal/redisClient";
 
@@ -21,22 +29,37 @@ export type SessionCodec<TPayload> = {
  */
 export type RedisSessionStoreOptions<TPayload> = {
   keyPrefix?: string;
+  ownerIndexPrefix?: string;
   codec?: SessionCodec<TPayload>;
 };
 
 const DEFAULT_KEY_PREFIX = "sessionkit:sess:";
+const DEFAULT_OWNER_INDEX_PREFIX = "sessionkit:owner:";
+const TOUCH_ATTEMPTS = 3;
 
 /**
  * Redis-backed implementation of SessionKit `SessionStore`.
+ *
+ * Sessions with an `ownerKey` are also tracked in a per-owner set whose TTL is kept
+ * at least as long as its longest-lived member; stale members are pruned on read.
+ *
+ * `compareAndSet` checks `version` on the decoded record, then swaps the raw value with a Lua
+ * script that fails if the key changed in between, so it works with any {@link SessionCodec}.
+ * `touch` swaps the same way, so it never overwrites a concurrent write with a stale copy.
+ *
+ * Session data lives in a hash next to the session key (`<session key>:data`, one JSON field per
+ * entry) whose TTL is renewed on every write of the session.
  */
 export class RedisSessionStore<TPayload> implements SessionStore<TPayload> {
   private readonly keyPrefix: string;
+  private readonly ownerIndexPrefix: string;
   private readonly codec: SessionCodec<TPayload>;
   private readonly clientManager: RedisClientManager;
 
   constructor(connection: RedisConnectionInput, options?: RedisSessionStoreOptions<TPayload>) {
     this.clientManager = new RedisClientManager(connection);
     this.keyPrefix = options?.keyPrefix ?? DEFAULT_KEY_PREFIX;
+    this.ownerIndexPrefix = options?.ownerIndexPrefix ?? DEFAULT_OWNER_INDEX_PREFIX;
     this.codec = options?.codec ?? createJsonCodec<TPayload>();
   }
 
@@ -61,11 +84,57 @@ export class RedisSessionStore<TPayload> implements SessionStore<TPayload> {
     const raw = this.codec.serialize(value);
 
     await setWithTtl(client, key, raw, ttl);
+    await this.renewData(client, sessionId, ttl);
+    if (value.ownerKey !== undefined) {
+      await this.indexSession(client, value.ownerKey, sessionId, ttl);
+    }
+  }
+
+  async compareAndSet(
+    sessionId: string,
+    expectedVersion: number,
+    value: StoredSession<TPayload>,
+    ttlSeconds: number,
+  ): Promise<boolean> {
+    const ttl = normalizeTtl(ttlSeconds);
+    const client = await this.clientManager.getClient();
+    const key = this.makeKey(sessionId);
+
+    const current = await client.get(key);
+    if (current === null) {
+      return false;
+    }
+
+    let version: number;
+    try {
+      version = this.codec.deserialize(current).version ?? 0;
+    } catch {
+      return false;
+    }
+    if (version !== expectedVersion) {
+      return false;
+    }
+
+    if (!(await compareAndSwap(client, key, current, this.codec.serialize(value), ttl))) {
+      return false;
+    }
+    await this.renewData(client, sessionId, ttl);
+    if (value.ownerKey !== undefined) {
+      await this.indexSession(client, value.ownerKey, sessionId, ttl);
+    }
+    return true;
   }
 
   async del(sessionId: string): Promise<void> {
     const client = await this.clientManager.getClient();
-    await client.del(this.makeKey(sessionId));
+    const key = this.makeKey(sessionId);
+    const ownerKey = this.readOwnerKey(await client.get(key));
+
+    await client.del(key);
+    await client.del(this.makeDataKey(sessionId));
+    if (ownerKey !== undefined) {
+      await removeFromSet(client, this.makeOwnerKey(ownerKey), sessionId);
+    }
   }
 
   async touch(sessionId: string, ttlSeconds: number): Promise<void> {
@@ -73,17 +142,95 @@ export class RedisSessionStore<TPayload> implements SessionStore<TPayload> {
     const client = await this.clientManager.getClient();
     const key = this.makeKey(sessionId);
 
-    if (typeof client.expire === "function") {
-      await client.expire(key, ttl);
-      return;
+    for (let attempt = 1; attempt <= TOUCH_ATTEMPTS; attempt++) {
+      const current = await client.get(key);
+      if (current === null) {
+        return;
+      }
+
+      let value: StoredSession<TPayload>;
+      try {
+        value = this.codec.deserialize(current);
+      } catch {
+        // unreadable record: only extend its TTL
+        if (typeof client.expire === "function") {
+          await client.expire(key, ttl);
+        } else {
+          await setWithTtl(client, key, current, ttl);
+        }
+        return;
+      }
+
+      const now = Date.now();
+      const touched = this.codec.serialize({ ...value, expiresAt: now + ttl * 1000, lastSeenAt: now });
+      if (await compareAndSwap(client, key, current, touched, ttl)) {
+        await this.renewData(client, sessionId, ttl);
+        if (value.ownerKey !== undefined) {
+          await this.indexSession(client, value.ownerKey, sessionId, ttl);
+        }
+        return;
+      }
+    }
+  }
+
+  async getData(sessionId: string): Promise<Record<string, SessionDataValue>> {
+    const client = await this.clientManager.getClient();
+    const out: Record<string, SessionDataValue> = {};
+
+    for (const [field, raw] of Object.entries(await hashEntries(client, this.makeDataKey(sessionId)))) {
+      try {
+        out[field] = JSON.parse(raw) as SessionDataValue;
+      } catch {
+        // unreadable entry: treat as absent
+      }
     }
+    return out;
+  }
 
-    const current = await client.get(key);
-    if (current === null) {
-      return;
+  async patchData(sessionId: string, patch: SessionDataPatch, ttlSeconds: number): Promise<void> {
+    const ttl = normalizeTtl(ttlSeconds);
+    const client = await this.clientManager.getClient();
+    const dataKey = this.makeDataKey(sessionId);
+    if (typeof client.expire !== "function") {
+      throw new Error("Redis client does not support EXPIRE.");
     }
 
-    await setWithTtl(client, key, current, ttl);
+    const fields = Object.fromEntries(Object.entries(patch.set).map(([field, value]) => [field, JSON.stringify(value)]));
+    if (Object.keys(fields).length > 0) {
+      await setHashFields(client, dataKey, fields);
+    }
+    for (const field of patch.delete) {
+      await deleteHashField(client, dataKey, field);
+    }
+    await client.expire(dataKey, ttl);
+  }
+
+  async listByOwner(ownerKey: string): Promise<OwnedSession<TPayload>[]> {
+    const client = await this.clientManager.getClient();
+    const indexKey = this.makeOwnerKey(ownerKey);
+    const out: OwnedSession<TPayload>[] = [];
+
+    for (const sessionId of await setMembers(client, indexKey)) {
+      const session = await this.get(sessionId);
+      if (session === null || session.ownerKey !== ownerKey) {
+        await removeFromSet(client, indexKey, sessionId);
+        continue;
+      }
+      out.push({ sessionId, session });
+    }
+    return out;
+  }
+
+  async deleteByOwner(ownerKey: string): Promise<number> {
+    const sessions = await this.listByOwner(ownerKey);
+    const client = await this.clientManager.getClient();
+
+    for (const { sessionId } of sessions) {
+      await client.del(this.makeKey(sessionId));
+      await client.del(this.makeDataKey(sessionId));
+    }
+    await client.del(this.makeOwnerKey(ownerKey));
+    return sessions.length;
   }
 
   async close(): Promise<void> {
@@ -100,6 +247,46 @@ export class RedisSessionStore<TPayload> implements SessionStore<TPayload> {
   private makeKey(sessionId: string): string {
     return `${this.keyPrefix}${sessionId}`;
   }
+
+  private makeOwnerKey(ownerKey: string): string {
+    return `${this.ownerIndexPrefix}${ownerKey}`;
+  }
+
+  private makeDataKey(sessionId: string): string {
+    return `${this.makeKey(sessionId)}:data`;
+  }
+
+  /**
+   * Keeps the data hash alive as long as the session; EXPIRE is a no-op when there is none.
+   */
+  private async renewData(client: RedisClientLike, sessionId: string, ttlSeconds: number): Promise<void> {
+    if (typeof client.expire === "function") {
+      await client.expire(this.makeDataKey(sessionId), ttlSeconds);
+    }
+  }
+
+  private async indexSession(
+    client: RedisClientLike,
+    ownerKey: string,
+    sessionId: string,
+    ttlSeconds: number,
+  ): Promise<void> {
+    const indexKey = this.makeOwnerKey(ownerKey);
+    await addToSet(client, indexKey, sessionId);
+    await extendTtl(client, indexKey, ttlSeconds);
+  }
+
+  private readOwnerKey(raw: string | null): string | undefined {
+    if (raw === null) {
+      return undefined;
+    }
+
+    try {
+      return this.codec.deserialize(raw).ownerKey;
+    } catch {
+      return undefined;
+    }
+  }
 }
 
 function createJsonCodec<TPayload>(): SessionCodec<TPayload> {
@@ -12,3 +12,9 @@ export {
   type RedisLockProviderInput,
   type RedisLockProviderOptions,
 } from "./RedisLockProvider";
+
+export {
+  RedisRememberMeStore,
+  type RedisRememberMeStoreInput,
+  type RedisRememberMeStoreOptions,
+} from "./RedisRememberMeStore";
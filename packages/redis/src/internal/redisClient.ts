@@ -3,6 +3,19 @@ export interface RedisClientLike {
   set(...args: unknown[]): Promise<unknown>;
   del(key: string): Promise<number | unknown>;
   expire?(key: string, ttlSeconds: number): Promise<number | unknown>;
+  ttl?(key: string): Promise<number>;
+  sAdd?(key: string, member: string): Promise<number | unknown>;
+  sadd?(key: string, member: string): Promise<number | unknown>;
+  sRem?(key: string, member: string): Promise<number | unknown>;
+  srem?(key: string, member: string): Promise<number | unknown>;
+  sMembers?(key: string): Promise<string[]>;
+  smembers?(key: string): Promise<string[]>;
+  hSet?(key: string, fields: Record<string, string>): Promise<number | unknown>;
+  hset?(key: string, fields: Record<string, string>): Promise<number | unknown>;
+  hDel?(key: string, field: string): Promise<number | unknown>;
+  hdel?(key: string, field: string): Promise<number | unknown>;
+  hGetAll?(key: string): Promise<Record<string, string>>;
+  hgetall?(key: string): Promise<Record<string, string>>;
   setEx?(key: string, ttlSeconds: number, value: string): Promise<unknown>;
   setex?(key: string, ttlSeconds: number, value: string): Promise<unknown>;
   eval?(...args: unknown[]): Promise<unknown>;
@@ -147,6 +160,72 @@ export async function setWithTtl(
   }
 }
 
+export async function addToSet(client: RedisClientLike, key: string, member: string): Promise<void> {
+  const sAdd = client.sAdd ?? client.sadd;
+  if (!sAdd) {
+    throw new Error("Redis client does not support SADD.");
+  }
+  await sAdd.call(client, key, member);
+}
+
+export async function removeFromSet(client: RedisClientLike, key: string, member: string): Promise<void> {
+  const sRem = client.sRem ?? client.srem;
+  if (!sRem) {
+    throw new Error("Redis client does not support SREM.");
+  }
+  await sRem.call(client, key, member);
+}
+
+export async function setMembers(client: RedisClientLike, key: string): Promise<string[]> {
+  const sMembers = client.sMembers ?? client.smembers;
+  if (!sMembers) {
+    throw new Error("Redis client does not support SMEMBERS.");
+  }
+  return sMembers.call(client, key);
+}
+
+export async function setHashFields(
+  client: RedisClientLike,
+  key: string,
+  fields: Record<string, string>,
+): Promise<void> {
+  const hSet = client.hSet ?? client.hset;
+  if (!hSet) {
+    throw new Error("Redis client does not support HSET.");
+  }
+  await hSet.call(client, key, fields);
+}
+
+export async function deleteHashField(client: RedisClientLike, key: string, field: string): Promise<void> {
+  const hDel = client.hDel ?? client.hdel;
+  if (!hDel) {
+    throw new Error("Redis client does not support HDEL.");
+  }
+  await hDel.call(client, key, field);
+}
+
+export async function hashEntries(client: RedisClientLike, key: string): Promise<Record<string, string>> {
+  const hGetAll = client.hGetAll ?? client.hgetall;
+  if (!hGetAll) {
+    throw new Error("Redis client does not support HGETALL.");
+  }
+  return (await hGetAll.call(client, key)) ?? {};
+}
+
+/**
+ * Extends a key's TTL to at least `ttlSeconds`, never shortening it.
+ */
+export async function extendTtl(client: RedisClientLike, key: string, ttlSeconds: number): Promise<void> {
+  if (typeof client.expire !== "function") {
+    throw new Error("Redis client does not support EXPIRE.");
+  }
+
+  const current = typeof client.ttl === "function" ? await client.ttl(key) : -1;
+  if (current < ttlSeconds) {
+    await client.expire(key, ttlSeconds);
+  }
+}
+
 export async function setNxWithTtl(
   client: RedisClientLike,
   key: string,
@@ -191,6 +270,38 @@ export async function releaseLockIfOwned(
   }
 }
 
+/**
+ * Atomically replaces `key` with `value` (and a TTL) only if it still holds `expected`.
+ */
+export async function compareAndSwap(
+  client: RedisClientLike,
+  key: string,
+  expected: string,
+  value: string,
+  ttlSeconds: number,
+): Promise<boolean> {
+  const script = [
+    "if redis.call('get', KEYS[1]) == ARGV[1] then",
+    "  redis.call('set', KEYS[1], ARGV[2], 'EX', ARGV[3])",
+    "  return 1",
+    "else",
+    "  return 0",
+    "end",
+  ].join("\n");
+
+  if (typeof client.eval !== "function") {
+    throw new Error("Redis client does not support EVAL.");
+  }
+
+  try {
+    const result = await client.eval(script, { keys: [key], arguments: [expected, value, String(ttlSeconds)] });
+    return Number(result) === 1;
+  } catch {
+    const result = await client.eval(script, 1, key, expected, value, ttlSeconds);
+    return Number(result) === 1;
+  }
+}
+
 export function isRedisClientLike(value: unknown): value is RedisClientLike {
   if (!value || typeof value !== "object") {
     return false;
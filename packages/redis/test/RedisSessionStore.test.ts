@@ -1,16 +1,24 @@
 import { describe, expect, it } from "vitest";
-import { RedisSessionStore, type RedisClientLike } from "../src";
+import { HashedSessionStore, SessionKit, type HttpContext } from "@sessionkit/core";
+import { RedisRememberMeStore, RedisSessionStore, type RedisClientLike } from "../src";
 
 type StoredValue = {
   payload: { userId: string };
   createdAt: number;
   expiresAt: number;
+  lastSeenAt?: number;
+  ownerKey?: string;
+  version?: number;
 };
 
-function createInMemoryRedisClient(): RedisClientLike {
+function createInMemoryRedisClient(): RedisClientLike & { ttls: Map<string, number> } {
   const map = new Map<string, string>();
+  const sets = new Map<string, Set<string>>();
+  const hashes = new Map<string, Map<string, string>>();
+  const ttls = new Map<string, number>();
 
   return {
+    ttls,
     async get(key: string): Promise<string | null> {
       return map.get(key) ?? null;
     },
@@ -24,7 +32,48 @@ function createInMemoryRedisClient(): RedisClientLike {
       return "OK";
     },
     async del(key: string): Promise<number> {
-      return map.delete(key) ? 1 : 0;
+      return map.delete(key) || sets.delete(key) || hashes.delete(key) ? 1 : 0;
+    },
+    async expire(key: string, ttlSeconds: number): Promise<number> {
+      ttls.set(key, ttlSeconds);
+      return 1;
+    },
+    async ttl(key: string): Promise<number> {
+      return ttls.get(key) ?? -1;
+    },
+    async sAdd(key: string, member: string): Promise<number> {
+      const set = sets.get(key) ?? new Set<string>();
+      sets.set(key, set);
+      return set.has(member) ? 0 : (set.add(member), 1);
+    },
+    async sRem(key: string, member: string): Promise<number> {
+      return sets.get(key)?.delete(member) ? 1 : 0;
+    },
+    async sMembers(key: string): Promise<string[]> {
+      return [...(sets.get(key) ?? [])];
+    },
+    async hSet(key: string, fields: Record<string, string>): Promise<number> {
+      const hash = hashes.get(key) ?? new Map<string, string>();
+      hashes.set(key, hash);
+      Object.entries(fields).forEach(([field, value]) => hash.set(field, value));
+      return Object.keys(fields).length;
+    },
+    async hDel(key: string, field: string): Promise<number> {
+      return hashes.get(key)?.delete(field) ? 1 : 0;
+    },
+    async hGetAll(key: string): Promise<Record<string, string>> {
+      return Object.fromEntries(hashes.get(key) ?? []);
+    },
+    // emulates the compare-and-swap script: swap KEYS[1] from ARGV[1] to ARGV[2]
+    async eval(_script: unknown, options: unknown): Promise<number> {
+      const { keys, arguments: args } = options as { keys: string[]; arguments: string[] };
+      const [key] = keys;
+      const [expected, value] = args;
+      if (key === undefined || value === undefined || map.get(key) !== expected) {
+        return 0;
+      }
+      map.set(key, value);
+      return 1;
     },
   };
 }
@@ -47,4 +96,176 @@ describe("RedisSessionStore", () => {
 
     await expect(store.close()).resolves.toBeUndefined();
   });
+
+  it("indexes sessions by owner and keeps the index TTL at least as long as its sessions", async () => {
+    const client = createInMemoryRedisClient();
+    const store = new RedisSessionStore<StoredValue["payload"]>(client);
+    const now = Date.now();
+    const session = (userId: string): StoredValue => ({
+      payload: { userId },
+      createdAt: now,
+      expiresAt: now + 60_000,
+      ownerKey: userId,
+    });
+
+    await store.set("sid-a", session("u-1"), 60);
+    await store.set("sid-b", session("u-1"), 300);
+    await store.set("sid-c", session("u-2"), 60);
+    expect(client.ttls.get("sessionkit:owner:u-1")).toBe(300);
+
+    const listed = await store.listByOwner("u-1");
+    expect(listed.map((s) => s.sessionId).sort()).toEqual(["sid-a", "sid-b"]);
+
+    await store.del("sid-a");
+    await expect(store.listByOwner("u-1")).resolves.toHaveLength(1);
+
+    await expect(store.deleteByOwner("u-1")).resolves.toBe(1);
+    await expect(store.get("sid-b")).resolves.toBeNull();
+    await expect(store.get("sid-c")).resolves.not.toBeNull();
+  });
+
+  it("touch updates expiresAt and lastSeenAt on the stored record", async () => {
+    const store = new RedisSessionStore<StoredValue["payload"]>(createInMemoryRedisClient());
+    const createdAt = Date.now() - 30_000;
+    await store.set("sid-touch", { payload: { userId: "u-touch" }, createdAt, expiresAt: createdAt + 60_000, lastSeenAt: createdAt }, 60);
+
+    await store.touch("sid-touch", 120);
+
+    const touched = await store.get("sid-touch");
+    expect(touched?.lastSeenAt).toBeGreaterThan(createdAt);
+    expect(touched?.expiresAt).toBeGreaterThanOrEqual(Date.now() + 119_000);
+  });
+
+  it("touch never overwrites a write that lands between its read and its swap", async () => {
+    const client = createInMemoryRedisClient();
+    const store = new RedisSessionStore<StoredValue["payload"]>(client);
+    const createdAt = Date.now() - 30_000;
+    const session: StoredValue = { payload: { userId: "u-touch" }, createdAt, expiresAt: createdAt + 60_000, version: 1 };
+    await store.set("sid-touch", session, 60);
+
+    const get = client.get.bind(client);
+    let raced = false;
+    client.get = async (key: string) => {
+      const raw = await get(key);
+      if (!raced) {
+        raced = true;
+        await store.set("sid-touch", { ...session, payload: { userId: "u-updated" }, version: 2 }, 60);
+      }
+      return raw;
+    };
+    await store.touch("sid-touch", 120);
+
+    const touched = await store.get("sid-touch");
+    expect(touched).toMatchObject({ payload: { userId: "u-updated" }, version: 2 });
+    expect(touched?.lastSeenAt).toBeGreaterThan(createdAt);
+  });
+
+  it("compareAndSet only writes when the stored version matches", async () => {
+    const store = new RedisSessionStore<StoredValue["payload"]>(createInMemoryRedisClient());
+    const now = Date.now();
+    const session = (version: number): StoredValue => ({
+      payload: { userId: "u-cas" },
+      createdAt: now,
+      expiresAt: now + 60_000,
+      ownerKey: "u-cas",
+      version,
+    });
+
+    await expect(store.compareAndSet("sid-cas", 0, session(1), 60)).resolves.toBe(false);
+
+    await store.set("sid-cas", session(1), 60);
+    await expect(store.compareAndSet("sid-cas", 0, session(2), 60)).resolves.toBe(false);
+    await expect(store.compareAndSet("sid-cas", 1, session(2), 60)).resolves.toBe(true);
+    await expect(store.get("sid-cas")).resolves.toEqual(session(2));
+    await expect(store.listByOwner("u-cas")).resolves.toHaveLength(1);
+  });
+
+  it("keeps session data in a hash next to the session key and deletes it with the session", async () => {
+    const client = createInMemoryRedisClient();
+    const store = new RedisSessionStore<StoredValue["payload"]>(client);
+    const now = Date.now();
+    await store.set("sid-data", { payload: { userId: "u-data" }, createdAt: now, expiresAt: now + 60_000 }, 60);
+
+    await store.patchData("sid-data", { set: { theme: { value: "dark" }, notice: { value: "Hi", flash: true } }, delete: [] }, 60);
+    await store.patchData("sid-data", { set: {}, delete: ["notice"] }, 60);
+    await expect(store.getData("sid-data")).resolves.toEqual({ theme: { value: "dark" } });
+    expect(client.ttls.get("sessionkit:sess:sid-data:data")).toBe(60);
+
+    await store.touch("sid-data", 120);
+    expect(client.ttls.get("sessionkit:sess:sid-data:data")).toBe(120);
+
+    await store.del("sid-data");
+    await expect(store.getData("sid-data")).resolves.toEqual({});
+  });
+
+  it("files sessions under hashed keys when wrapped in HashedSessionStore", async () => {
+    const client = createInMemoryRedisClient();
+    const store = new HashedSessionStore(new RedisSessionStore<StoredValue["payload"]>(client), { secrets: ["secret"] });
+    const now = Date.now();
+    const value: StoredValue = { payload: { userId: "u-hash" }, createdAt: now, expiresAt: now + 60_000 };
+
+    await store.set("sid-raw", value, 60);
+
+    await expect(client.get("sessionkit:sess:sid-raw")).resolves.toBeNull();
+    await expect(client.get(`sessionkit:sess:${store.hashId("sid-raw")}`)).resolves.not.toBeNull();
+    await expect(store.get("sid-raw")).resolves.toEqual(value);
+  });
+
+  it("keeps remember-me series beside sessions on the shared connection", async () => {
+    const client = createInMemoryRedisClient();
+    const sessions = new RedisSessionStore<StoredValue["payload"]>(client);
+    const store = new RedisRememberMeStore<StoredValue["payload"]>({ store: sessions });
+    const now = Date.now();
+    const series = (userId: string) => ({
+      payload: { userId },
+      tokenHash: "hash",
+      createdAt: now,
+      expiresAt: now + 86_400_000,
+      ownerKey: userId,
+    });
+
+    await store.set("series-a", series("u-1"), 86_400);
+    await store.set("series-b", series("u-1"), 86_400);
+    await store.set("series-c", series("u-2"), 86_400);
+    await expect(client.get("sessionkit:remember:series-a")).resolves.not.toBeNull();
+    expect(client.ttls.get("sessionkit:remember-owner:u-1")).toBe(86_400);
+    await expect(store.get("series-a")).resolves.toEqual(series("u-1"));
+
+    await store.del("series-a");
+    await expect(store.get("series-a")).resolves.toBeNull();
+    await expect(store.deleteByOwner("u-1")).resolves.toBe(1);
+    await expect(store.get("series-b")).resolves.toBeNull();
+    await expect(store.get("series-c")).resolves.not.toBeNull();
+
+    // the connection belongs to the session store
+    await store.close();
+    await expect(sessions.get("sid-missing")).resolves.toBeNull();
+  });
+
+  it("backs SessionKit maxPerOwner eviction through the owner index", async () => {
+    const store = new RedisSessionStore<StoredValue["payload"]>(createInMemoryRedisClient());
+    const evicted: string[] = [];
+    const kit = new SessionKit<StoredValue["payload"], { userId: string }>({
+      store,
+      session: { ttlSeconds: 60, maxPerOwner: 2 },
+      principalFactory: (payload) => ({ userId: payload.userId }),
+      ownerKey: (payload) => payload.userId,
+      hooks: {
+        onSessionEvicted(_ctx, entry) {
+          evicted.push(entry.sessionId);
+        },
+      },
+    });
+    const ctx = { setCookie() {}, setAuth() {} } as unknown as HttpContext;
+
+    const now = Date.now();
+    await store.set("sid-oldest", { payload: { userId: "u-max" }, createdAt: now - 2_000, expiresAt: now + 60_000, ownerKey: "u-max" }, 60);
+    await store.set("sid-older", { payload: { userId: "u-max" }, createdAt: now - 1_000, expiresAt: now + 60_000, ownerKey: "u-max" }, 60);
+
+    const { sessionId } = await kit.signIn(ctx, { userId: "u-max" });
+
+    expect(evicted).toEqual(["sid-oldest"]);
+    await expect(store.get("sid-oldest")).resolves.toBeNull();
+    expect((await store.listByOwner("u-max")).map((e) => e.sessionId).sort()).toEqual(["sid-older", sessionId].sort());
+  });
 });